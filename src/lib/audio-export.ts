@@ -0,0 +1,155 @@
+import JSZip from 'jszip';
+import { player, type OfflineRenderOptions } from './playback.svelte';
+
+export type WavBitDepth = 16 | 24;
+
+export interface AudioExportOptions extends OfflineRenderOptions {
+    bitDepth?: WavBitDepth;
+}
+
+export interface StemExportOptions {
+    bitDepth?: WavBitDepth;
+    sampleRate?: number;
+    /** Write separate `dry` and `wet` files per channel instead of one mixed stem. */
+    splitReverb?: boolean;
+    /** Also export channels that are currently muted. */
+    includeMuted?: boolean;
+    /** Called after each rendered file with the number done and the total. */
+    onProgress?: (done: number, total: number) => void;
+}
+
+function writeString(view: DataView, offset: number, value: string): void {
+    for (let i = 0; i < value.length; i++) {
+        view.setUint8(offset + i, value.charCodeAt(i));
+    }
+}
+
+/**
+ * Encode an AudioBuffer as an interleaved little-endian PCM WAV file.
+ * Samples are clamped to [-1, 1] before quantizing to the requested bit depth.
+ */
+export function audioBufferToWav(buffer: AudioBuffer, bitDepth: WavBitDepth = 16): ArrayBuffer {
+    const channelCount = buffer.numberOfChannels;
+    const bytesPerSample = bitDepth / 8;
+    const blockAlign = channelCount * bytesPerSample;
+    const dataSize = buffer.length * blockAlign;
+    const out = new ArrayBuffer(44 + dataSize);
+    const view = new DataView(out);
+
+    // RIFF header
+    writeString(view, 0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(view, 8, 'WAVE');
+
+    // fmt chunk (PCM)
+    writeString(view, 12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true);
+    view.setUint16(22, channelCount, true);
+    view.setUint32(24, buffer.sampleRate, true);
+    view.setUint32(28, buffer.sampleRate * blockAlign, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bitDepth, true);
+
+    // data chunk
+    writeString(view, 36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < channelCount; c++) channels.push(buffer.getChannelData(c));
+
+    const maxValue = bitDepth === 16 ? 0x7fff : 0x7fffff;
+    let offset = 44;
+    for (let i = 0; i < buffer.length; i++) {
+        for (let c = 0; c < channelCount; c++) {
+            const sample = Math.max(-1, Math.min(1, channels[c][i]));
+            const value = Math.round(sample * maxValue);
+            if (bitDepth === 16) {
+                view.setInt16(offset, value, true);
+            } else {
+                view.setUint8(offset, value & 0xff);
+                view.setUint8(offset + 1, (value >> 8) & 0xff);
+                view.setUint8(offset + 2, (value >> 16) & 0xff);
+            }
+            offset += bytesPerSample;
+        }
+    }
+
+    return out;
+}
+
+/**
+ * Render the loaded song offline and encode it as a WAV blob.
+ */
+export async function renderSongToWav(options: AudioExportOptions = {}): Promise<Blob> {
+    const { bitDepth = 16, ...renderOptions } = options;
+    const rendered = await player.renderOffline(renderOptions);
+    return new Blob([audioBufferToWav(rendered, bitDepth)], { type: 'audio/wav' });
+}
+
+/**
+ * Render the loaded song and trigger a browser download of the WAV file.
+ */
+export async function downloadSongAsWav(filename: string, options: AudioExportOptions = {}) {
+    const blob = await renderSongToWav(options);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename.endsWith('.wav') ? filename : `${filename}.wav`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+}
+
+function sanitizeFileName(name: string): string {
+    const cleaned = name.replace(/[\\/:*?"<>|]+/g, '_').trim();
+    return cleaned || 'Channel';
+}
+
+/**
+ * Render every note channel as its own WAV stem and package them in a zip.
+ * All stems cover the whole song from tick 0 with the same length, so they line up
+ * sample-for-sample when dropped into a DAW.
+ */
+export async function renderStemsToZip(options: StemExportOptions = {}): Promise<Blob> {
+    const song = player.song;
+    if (!song) throw new Error('No song loaded');
+    const { bitDepth = 16, sampleRate, splitReverb = false, includeMuted = false } = options;
+
+    const stems = song.channels.flatMap((channel, index) =>
+        channel.kind === 'note' &&
+        channel.id &&
+        (includeMuted || !channel.isMuted) &&
+        channel.sections.some((section) => section.notes.length > 0)
+            ? [{ channel, id: channel.id, index }]
+            : []
+    );
+    const passes: Array<'mix' | 'dry' | 'wet'> = splitReverb ? ['dry', 'wet'] : ['mix'];
+    const total = stems.length * passes.length;
+
+    const zip = new JSZip();
+    const usedNames = new Set<string>();
+    let done = 0;
+    for (const { channel, id, index } of stems) {
+        let baseName = `${index + 1} - ${sanitizeFileName(channel.name)}`;
+        while (usedNames.has(baseName)) baseName += '_';
+        usedNames.add(baseName);
+
+        for (const reverb of passes) {
+            const rendered = await player.renderOffline({
+                range: 'song',
+                sampleRate,
+                channelIds: [id],
+                reverb,
+                // Limiting each stem on its own would keep them from summing back to the mix
+                limiter: false
+            });
+            const suffix = reverb === 'mix' ? '' : ` (${reverb})`;
+            zip.file(`${baseName}${suffix}.wav`, audioBufferToWav(rendered, bitDepth));
+            options.onProgress?.(++done, total);
+        }
+    }
+
+    return await zip.generateAsync({ type: 'blob' });
+}
@@ -0,0 +1,98 @@
+import {
+    BUILT_IN_SAMPLE_KEY,
+    CUSTOM_INSTRUMENT_ICON,
+    FIRST_CUSTOM_INSTRUMENT,
+    INSTRUMENT_ICONS,
+    INSTRUMENT_NAMES,
+    type CustomInstrument,
+    type Instrument,
+    type Song
+} from './types';
+
+export const CUSTOM_SAMPLE_EXTENSIONS = ['.ogg', '.wav'] as const;
+
+export function isCustomInstrument(instrument: Instrument | number): boolean {
+    return instrument >= FIRST_CUSTOM_INSTRUMENT;
+}
+
+export function findCustomInstrument(
+    song: Song | null | undefined,
+    instrument: Instrument | number
+): CustomInstrument | null {
+    if (!isCustomInstrument(instrument)) return null;
+    return song?.customInstruments?.find((custom) => custom.id === instrument) ?? null;
+}
+
+/**
+ * Display name of a built-in or custom instrument.
+ */
+export function getInstrumentName(
+    instrument: Instrument | number,
+    song: Song | null | undefined
+): string {
+    if (!isCustomInstrument(instrument)) return INSTRUMENT_NAMES[instrument as Instrument];
+    return findCustomInstrument(song, instrument)?.name ?? `Custom ${instrument}`;
+}
+
+export function getInstrumentIcon(instrument: Instrument | number): string {
+    if (isCustomInstrument(instrument)) return CUSTOM_INSTRUMENT_ICON;
+    return INSTRUMENT_ICONS[instrument as Instrument];
+}
+
+/**
+ * Key at which an instrument's sample plays unpitched. Built-ins share F#3.
+ */
+export function getSampleBaseKey(instrument: Instrument | number, song: Song | null | undefined) {
+    return findCustomInstrument(song, instrument)?.baseKey ?? BUILT_IN_SAMPLE_KEY;
+}
+
+export function nextCustomInstrumentId(song: Song | null | undefined): number {
+    const ids = song?.customInstruments?.map((custom) => custom.id) ?? [];
+    return Math.max(FIRST_CUSTOM_INSTRUMENT - 1, ...ids) + 1;
+}
+
+/**
+ * Lowercase, filesystem and resource-location safe version of a name, e.g. `my_bell`.
+ */
+export function slugifyInstrumentName(name: string): string {
+    const slug = name
+        .toLowerCase()
+        .replace(/\.[a-z0-9]+$/, '')
+        .replace(/[^a-z0-9_]+/g, '_')
+        .replace(/^_+|_+$/g, '');
+    return slug || 'sample';
+}
+
+/**
+ * Asset file name for a sample, unique among the song's custom instruments.
+ */
+export function createAssetFileName(song: Song | null | undefined, sourceName: string): string {
+    const match = /\.(ogg|wav)$/i.exec(sourceName);
+    const extension = match ? match[1].toLowerCase() : 'ogg';
+    const base = slugifyInstrumentName(sourceName);
+    const taken = new Set(song?.customInstruments?.map((custom) => custom.file) ?? []);
+    let file = `${base}.${extension}`;
+    for (let i = 2; taken.has(file); i++) file = `${base}_${i}.${extension}`;
+    return file;
+}
+
+export function isSupportedSampleFile(fileName: string): boolean {
+    const lower = fileName.toLowerCase();
+    return CUSTOM_SAMPLE_EXTENSIONS.some((extension) => lower.endsWith(extension));
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    const chunk = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunk) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+    }
+    return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
@@ -1,5 +1,12 @@
 import JSZip from 'jszip';
-import { Instrument, type NoteChannel, type Song, type TempoChannel } from './types';
+import { findCustomInstrument, slugifyInstrumentName } from './custom-instruments';
+import {
+    Instrument,
+    type CustomInstrument,
+    type NoteChannel,
+    type Song,
+    type TempoChannel
+} from './types';
 
 export type Direction = 'north' | 'south' | 'east' | 'west';
 
@@ -18,6 +25,8 @@ export interface NoteblockEntry {
     instrument: Instrument;
     channelIndex: number;
     channelName: string;
+    // Set for custom instruments, which are played with /playsound instead of a note block
+    customSound?: { name: string; baseKey: number };
 }
 
 export interface ChannelNoteblocks {
@@ -68,6 +77,7 @@ export function generateNoteblockMap(
         const noteChannel = channel as NoteChannel;
         const channelId = channel.id || `channel-${channelIndex}`;
         const channelName = channel.name;
+        const custom = findCustomInstrument(song, noteChannel.instrument);
 
         // Gather all unique (key, pitch) combinations in this channel
         const uniquePitches = new Map<string, { key: number; pitch: number }>();
@@ -98,8 +108,22 @@ export function generateNoteblockMap(
         // Create noteblock entries for each unique pitch (only valid ones)
         const entries: NoteblockEntry[] = [];
         sortedPitches.forEach(({ key, pitch }) => {
-            // Skip notes outside valid noteblock range
-            if (!isValidNoteblockKey(key)) {
+            // Skip notes the game cannot play
+            if (!isPlayableNoteblockKey(key, custom)) return;
+
+            if (custom) {
+                // Custom sounds need no block
+                entries.push({
+                    noteblock: { ...currentPos },
+                    blockUnder: { ...currentPos, y: currentPos.y - 1 },
+                    redstoneBlock: getRedstoneBlockPos(currentPos, direction),
+                    key,
+                    pitch,
+                    instrument: noteChannel.instrument,
+                    channelIndex,
+                    channelName,
+                    customSound: { name: getCustomSoundName(custom), baseKey: custom.baseKey }
+                });
                 return;
             }
 
@@ -232,6 +256,14 @@ const INSTRUMENT_SOUNDS: Record<Instrument, string> = {
     [Instrument.Pling]: 'pling'
 };
 
+/**
+ * Sound event path of a custom instrument inside the datapack namespace, e.g. `custom.bell`.
+ * A resource pack has to define the sound under this name for it to be heard.
+ */
+export function getCustomSoundName(custom: CustomInstrument): string {
+    return `custom.${slugifyInstrumentName(custom.file)}`;
+}
+
 /**
  * Calculates the Minecraft noteblock pitch (0-24) from a key value
  * @param key The key value (0-87 where 0 is A0, 33-57 is within noteblock range)
@@ -252,11 +284,82 @@ function calculateNoteblockPitch(key: number): number {
 /**
  * Checks if a key is within the valid noteblock range
  */
-function isValidNoteblockKey(key: number): boolean {
+export function isValidNoteblockKey(key: number): boolean {
     const pitch = calculateNoteblockPitch(key);
     return pitch >= 0 && pitch <= 24;
 }
 
+/**
+ * Checks if the datapack can play a key, either on a note block or, for custom
+ * instruments, with /playsound (whose pitch reaches one octave either way)
+ */
+export function isPlayableNoteblockKey(key: number, custom?: CustomInstrument | null): boolean {
+    if (custom) return Math.abs(key - custom.baseKey) <= 12;
+    return isValidNoteblockKey(key);
+}
+
+/**
+ * Gets the single tempo the datapack plays at: the override, the first tempo change in the
+ * tempo channel, or song.tempo, rounded to the 2 decimals the scoreboard keeps
+ */
+export function getDatapackTempo(song: Song, tempoOverride?: number): number {
+    const tempoChannel = song.channels.find((ch) => ch.kind === 'tempo') as
+        | TempoChannel
+        | undefined;
+    const rawTempo = tempoOverride ?? tempoChannel?.tempoChanges?.[0]?.tempo ?? song.tempo;
+    return Math.round(rawTempo * 100) / 100;
+}
+
+export interface GameTickSchedule {
+    tempo: number;
+    // Song tick -> game tick it is played on; song ticks the datapack skips are missing
+    gameTicks: Map<number, number>;
+}
+
+/**
+ * Replays the play_tick function to find the game tick (20 per second) each song tick is
+ * played on. Song ticks are only reached on whole game ticks, and when several song ticks
+ * fall into the same game tick only the last one plays, just like in game.
+ * @param song The song to simulate
+ * @param tempoOverride Optional tempo, as passed to createSongDatapack
+ */
+export function createGameTickSchedule(song: Song, tempoOverride?: number): GameTickSchedule {
+    const tempo = getDatapackTempo(song, tempoOverride);
+    const gameTicks = new Map<number, number>();
+
+    // Only ticks with playable notes get a tick function, so only they compete for game ticks
+    const songTicks = new Set<number>();
+    song.channels.forEach((channel) => {
+        if (channel.kind !== 'note') return;
+        const custom = findCustomInstrument(song, channel.instrument);
+        channel.sections.forEach((section) => {
+            section.notes.forEach((note) => {
+                if (isPlayableNoteblockKey(note.key, custom)) {
+                    songTicks.add(section.startingTick + note.tick);
+                }
+            });
+        });
+    });
+
+    const scaledTempo = Math.round(tempo * 100);
+    if (scaledTempo <= 0) return { tempo, gameTicks };
+
+    const sorted = Array.from(songTicks).sort((a, b) => a - b);
+    let index = 0;
+    for (let game = 0; index < sorted.length; game++) {
+        // #tick = (#game * #tempo) / 20, with every song tick scaled by 100
+        const current = Math.floor((game * scaledTempo) / 20);
+        let reached = -1;
+        while (index < sorted.length && sorted[index] * 100 <= current) {
+            reached = sorted[index];
+            index++;
+        }
+        if (reached >= 0) gameTicks.set(reached, game);
+    }
+
+    return { tempo, gameTicks };
+}
+
 /**
  * Generates the load function content
  */
@@ -348,6 +451,7 @@ function generateSetupCommands(noteblockMap: NoteblockMap): string[] {
         commands.push(`# Channel: ${channelNoteblocks.channelName}`);
 
         channelNoteblocks.noteblocks.forEach((entry) => {
+            if (entry.customSound) return;
             const { noteblock, blockUnder, instrument, key } = entry;
             const pitch = calculateNoteblockPitch(key);
             const underBlock = INSTRUMENT_UNDER_BLOCKS[instrument];
@@ -427,9 +531,22 @@ function generateFunctionTags(namespace: string): DatapackFile[] {
 /**
  * Generates commands to play a note
  */
-function generatePlayNoteCommands(entry: NoteblockEntry, visualizer: boolean): string[] {
+function generatePlayNoteCommands(
+    entry: NoteblockEntry,
+    visualizer: boolean,
+    namespace: string
+): string[] {
     const commands: string[] = [];
-    const { redstoneBlock, instrument, key } = entry;
+    const { redstoneBlock, instrument, key, customSound } = entry;
+
+    if (customSound) {
+        const pitch = Math.pow(2, (key - customSound.baseKey) / 12);
+        commands.push(
+            `execute as @a at @s run playsound ${namespace}:${customSound.name} record @s ~ ~ ~ 1 ${pitch.toFixed(6)}`
+        );
+        return commands;
+    }
+
     const noteblockPitch = calculateNoteblockPitch(key);
 
     // Calculate playsound pitch (0.5 * 2^(noteblock_pitch/12))
@@ -517,8 +634,10 @@ export function generateSongTickFunctions(
         const cleanupCommands: string[] = [`# Cleanup for tick ${tick}`];
 
         entries.forEach((entry) => {
-            commands.push(...generatePlayNoteCommands(entry, visualizer));
-            cleanupCommands.push(generateCleanupCommand(entry.redstoneBlock));
+            commands.push(...generatePlayNoteCommands(entry, visualizer, namespace));
+            if (!entry.customSound) {
+                cleanupCommands.push(generateCleanupCommand(entry.redstoneBlock));
+            }
         });
 
         // Add schedule command for cleanup
@@ -658,12 +777,7 @@ export function createSongDatapack(
         )
     ).sort((a, b) => a - b);
 
-    // Get tempo from override, or from the first tempo change in the tempo channel, or fall back to song.tempo
-    const tempoChannel = song.channels.find((ch) => ch.kind === 'tempo') as
-        | TempoChannel
-        | undefined;
-    const rawTempo = tempoOverride ?? tempoChannel?.tempoChanges?.[0]?.tempo ?? song.tempo;
-    const actualTempo = Math.round(rawTempo * 100) / 100;
+    const actualTempo = getDatapackTempo(song, tempoOverride);
 
     // Create base datapack
     const datapack = createDatapack(
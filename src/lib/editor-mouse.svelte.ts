@@ -131,7 +131,7 @@ export class EditorMouseController {
         this._contentEl = contentEl;
         this._startX = ev.clientX;
         const tick = this.tickFromClientX(contentEl, ev.clientX);
-        player.setCurrentTick(tick);
+        player.scrubTo(tick);
         this.clearNewSectionHover();
     };
 
@@ -666,7 +666,7 @@ export class EditorMouseController {
             }
         } else if (this.isScrubbing) {
             const tick = this.tickFromClientX(this._contentEl, e.clientX);
-            player.setCurrentTick(tick);
+            player.scrubTo(tick);
         } else if (this.isSelectingSections) {
             // 2D selection over sections (tick range + channel index range)
             const curTick = this.tickFromClientX(this._contentEl, e.clientX);
@@ -891,7 +891,7 @@ export class EditorMouseController {
             const endTick = this.tickFromClientX(this._contentEl, e.clientX);
             if (!this._moved) {
                 player.clearSelection();
-                player.setCurrentTick(endTick);
+                player.scrubTo(endTick);
             } else if (player.selectionStart === player.selectionEnd) {
                 player.setSelectionEnd((player.selectionEnd ?? endTick) + 1);
             }
@@ -0,0 +1,37 @@
+import { browser } from '$app/environment';
+import { normalizeMetronomeSettings, type MetronomeSettings } from './engine/metronome';
+
+const STORAGE_KEY = 'noteblock-studio:preferences';
+
+/**
+ * Editor settings that belong to the user rather than to a song, remembered per browser.
+ */
+export interface EditorPreferences {
+    metronome: MetronomeSettings;
+    scrubbing: boolean; // Play the notes under the playhead while it is dragged
+}
+
+export function loadEditorPreferences(): EditorPreferences {
+    let stored: Partial<EditorPreferences> | null = null;
+    if (browser) {
+        try {
+            const raw = localStorage.getItem(STORAGE_KEY);
+            if (raw) stored = JSON.parse(raw) as Partial<EditorPreferences>;
+        } catch (error) {
+            console.error('Failed to load editor preferences from localStorage', error);
+        }
+    }
+    return {
+        metronome: normalizeMetronomeSettings(stored?.metronome),
+        scrubbing: typeof stored?.scrubbing === 'boolean' ? stored.scrubbing : true
+    };
+}
+
+export function saveEditorPreferences(preferences: EditorPreferences): void {
+    if (!browser) return;
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+    } catch (error) {
+        console.error('Failed to save editor preferences to localStorage', error);
+    }
+}
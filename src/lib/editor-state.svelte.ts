@@ -27,6 +27,9 @@ export class EditorState {
     // Stored as an array of { channelIndex, sectionIndex } for simplicity.
     selectedSections = $state<Array<{ channelIndex: number; sectionIndex: number }>>([]);
 
+    // Mixer sheet visibility
+    mixerOpen = $state(false);
+
     // Current section opened in the piano roll editor (null when closed)
     pianoRollTarget = $state<{
         channelIndex: number;
@@ -137,6 +140,10 @@ export class EditorState {
         this.pointerMode = mode;
     }
 
+    setMixerOpen(open: boolean) {
+        this.mixerOpen = !!open;
+    }
+
     openPianoRoll(channelIndex: number, sectionIndex: number) {
         this.pianoRollTarget = { channelIndex, sectionIndex };
     }
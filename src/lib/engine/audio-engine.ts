@@ -0,0 +1,35 @@
+import type { Instrument, Note, NoteChannel } from '../types';
+import type { ClickLevel } from './metronome';
+
+/**
+ * What the Transport plays through. Live playback uses the Web Audio engine and offline
+ * rendering an OfflineAudioContext, while the null engine only reports what would play;
+ * all of them are driven by the same Transport.
+ */
+
+/** One note to sound, resolved to the channel it plays through. */
+export interface NoteVoice {
+    id: string; // `${tick}:${key}:${instrument}`, matched by the note highlight in the editor
+    tick: number;
+    note: Note;
+    instrument: Instrument;
+    channel: NoteChannel;
+    rate: number; // Playback rate multiplier on top of the note's own key and pitch
+}
+
+export interface AudioEngine {
+    /** Current time on the engine's clock in seconds, or null until `prepare` succeeded. */
+    readonly currentTime: number | null;
+
+    /** Start the clock and load what the song needs. Called every time playback starts. */
+    prepare(): Promise<void>;
+
+    /** Play a voice now, or at `when` on the engine's clock. */
+    playNote(voice: NoteVoice, when?: number): void;
+
+    /** Play a metronome click now, or at `when` on the engine's clock. */
+    playClick(level: ClickLevel, when?: number, tick?: number): void;
+
+    /** Cancel everything scheduled that has not started yet. */
+    cancelScheduled(): void;
+}
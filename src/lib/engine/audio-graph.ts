@@ -0,0 +1,405 @@
+import {
+    BUILT_IN_SAMPLE_KEY,
+    DEFAULT_CHANNEL_EFFECTS,
+    DEFAULT_SONG_MIXING,
+    type NoteChannel,
+    type SongMixing
+} from '../types';
+
+/**
+ * Web Audio graph shared by live playback and offline rendering: the master bus with its
+ * reverb and limiter, per-channel mixer strips, and note voices.
+ */
+
+/**
+ * Create a stereo panner for a channel pan value (-100 = hard left, 100 = hard right).
+ * Returns null for centered audio or when the context has no StereoPannerNode support.
+ */
+function createPanNode(ctx: BaseAudioContext, pan: number): StereoPannerNode | null {
+    if (!pan || typeof ctx.createStereoPanner !== 'function') return null;
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = Math.max(-1, Math.min(1, pan / 100));
+    return panner;
+}
+
+/**
+ * Per-channel mixer strip:
+ * voices -> volume -> low/high shelf -> compressor -> delay -> pan -> meter -> dry + reverb send.
+ * Every insert stays connected and is switched through gains, so effect edits never rebuild
+ * the graph under playing voices. The meter is an AnalyserNode the mixer reads peaks from.
+ */
+export type ChannelStrip = {
+    volume: GainNode;
+    lowShelf: BiquadFilterNode;
+    highShelf: BiquadFilterNode;
+    compressor: DynamicsCompressorNode;
+    compressorWet: GainNode;
+    compressorBypass: GainNode;
+    insertOut: GainNode;
+    delay: DelayNode;
+    delayFeedback: GainNode;
+    delayWet: GainNode;
+    delayMix: GainNode;
+    panner: StereoPannerNode | null;
+    meter: AnalyserNode;
+    reverbSend: GainNode | null;
+};
+
+/**
+ * Output nodes a note voice is routed into. Live playback and offline rendering each build
+ * one with `createOutputChain` so both produce the same mix.
+ */
+export type AudioOutputChain = {
+    ctx: BaseAudioContext;
+    masterGain: GainNode;
+    limiter: DynamicsCompressorNode;
+    limiterWet: GainNode;
+    limiterBypass: GainNode;
+    reverbNode: ConvolverNode | null;
+    reverbGain: GainNode | null;
+    dryGain: GainNode | null;
+    strips: Map<string, ChannelStrip>;
+};
+
+/**
+ * Build the master/reverb routing: dry and wet paths summed into a master gain, followed by
+ * an optional limiter. Levels come from the song's mixing settings.
+ * Without an impulse response the reverb is skipped and voices connect to master directly.
+ */
+export function createOutputChain(
+    ctx: BaseAudioContext,
+    impulse: AudioBuffer | null,
+    mixing: SongMixing = DEFAULT_SONG_MIXING
+): AudioOutputChain {
+    const masterGain = ctx.createGain();
+
+    // Hard-knee, high-ratio compressor close to 0 dBFS acting as a brickwall limiter.
+    // It sits in parallel with a bypass path so it can be toggled without rewiring.
+    const limiter = ctx.createDynamicsCompressor();
+    limiter.threshold.value = -1;
+    limiter.knee.value = 0;
+    limiter.ratio.value = 20;
+    limiter.attack.value = 0.001;
+    limiter.release.value = 0.1;
+    const limiterWet = ctx.createGain();
+    const limiterBypass = ctx.createGain();
+    masterGain.connect(limiter).connect(limiterWet).connect(ctx.destination);
+    masterGain.connect(limiterBypass).connect(ctx.destination);
+
+    let reverbNode: ConvolverNode | null = null;
+    let reverbGain: GainNode | null = null;
+    let dryGain: GainNode | null = null;
+    if (impulse) {
+        // Setup reverb audio chain
+        reverbNode = ctx.createConvolver();
+        reverbNode.buffer = impulse;
+        reverbGain = ctx.createGain();
+        dryGain = ctx.createGain();
+
+        // Connect reverb chain: reverb -> reverbGain -> masterGain
+        reverbNode.connect(reverbGain);
+        reverbGain.connect(masterGain);
+
+        // Connect dry chain: dryGain -> masterGain
+        dryGain.connect(masterGain);
+    }
+
+    const chain: AudioOutputChain = {
+        ctx,
+        masterGain,
+        limiter,
+        limiterWet,
+        limiterBypass,
+        reverbNode,
+        reverbGain,
+        dryGain,
+        strips: new Map()
+    };
+    applySongMixing(chain, mixing, false);
+    return chain;
+}
+
+/** Apply master volume, reverb wet/dry balance and the limiter switch to a chain. */
+export function applySongMixing(chain: AudioOutputChain, mixing: SongMixing, ramp: boolean): void {
+    const { ctx } = chain;
+    setAudioParam(chain.masterGain.gain, volumeToGain(mixing.masterVolume), ctx, ramp);
+    setAudioParam(chain.limiterWet.gain, mixing.limiter ? 1 : 0, ctx, ramp);
+    setAudioParam(chain.limiterBypass.gain, mixing.limiter ? 0 : 1, ctx, ramp);
+    if (chain.reverbGain && chain.dryGain) {
+        const wet = Math.max(0, Math.min(100, mixing.reverbWet)) / 100;
+        setAudioParam(chain.reverbGain.gain, wet, ctx, ramp);
+        setAudioParam(chain.dryGain.gain, 1 - wet, ctx, ramp);
+    }
+}
+
+/**
+ * Swap the reverb impulse on a live chain. A new convolver takes over the channel sends;
+ * the old one is disconnected, so only the tail of already-playing voices is cut.
+ */
+export function replaceReverbImpulse(chain: AudioOutputChain, impulse: AudioBuffer): void {
+    if (!chain.reverbNode || !chain.reverbGain) return;
+    const next = chain.ctx.createConvolver();
+    next.buffer = impulse;
+    next.connect(chain.reverbGain);
+    for (const strip of chain.strips.values()) {
+        if (!strip.reverbSend) continue;
+        strip.reverbSend.disconnect();
+        strip.reverbSend.connect(next);
+    }
+    chain.reverbNode.disconnect();
+    chain.reverbNode = next;
+}
+
+/** Send a node into the dry/wet split, or straight to master when there is no reverb. */
+function connectToOutput(node: AudioNode, chain: AudioOutputChain): void {
+    if (chain.reverbNode && chain.reverbGain && chain.dryGain) {
+        node.connect(chain.dryGain); // Dry signal
+        node.connect(chain.reverbNode); // Wet signal through reverb
+    } else {
+        node.connect(chain.masterGain);
+    }
+}
+
+function clampPan(pan: number): number {
+    return Math.max(-1, Math.min(1, (pan || 0) / 100));
+}
+
+export function volumeToGain(volume: number | undefined): number {
+    return Math.max(0, Math.min(100, volume ?? 100)) / 100;
+}
+
+/** Set an audio param right away, or ramp to it when the node is already playing. */
+function setAudioParam(param: AudioParam, value: number, ctx: BaseAudioContext, ramp: boolean) {
+    if (ramp) param.setTargetAtTime(value, ctx.currentTime, 0.01);
+    else param.value = value;
+}
+
+/** Apply a channel's volume, pan and insert effects to its strip. */
+function applyChannelStrip(
+    chain: AudioOutputChain,
+    strip: ChannelStrip,
+    channel: NoteChannel,
+    ramp: boolean
+): void {
+    const { ctx } = chain;
+    const { eq, compressor, delay, reverbSend } = channel.effects ?? DEFAULT_CHANNEL_EFFECTS;
+
+    setAudioParam(strip.volume.gain, volumeToGain(channel.volume), ctx, ramp);
+    if (strip.panner) setAudioParam(strip.panner.pan, clampPan(channel.pan), ctx, ramp);
+
+    setAudioParam(strip.lowShelf.frequency, eq.lowFrequency, ctx, ramp);
+    setAudioParam(strip.lowShelf.gain, eq.lowGain, ctx, ramp);
+    setAudioParam(strip.highShelf.frequency, eq.highFrequency, ctx, ramp);
+    setAudioParam(strip.highShelf.gain, eq.highGain, ctx, ramp);
+
+    setAudioParam(strip.compressor.threshold, compressor.threshold, ctx, ramp);
+    setAudioParam(strip.compressor.ratio, compressor.ratio, ctx, ramp);
+    setAudioParam(strip.compressor.attack, compressor.attack, ctx, ramp);
+    setAudioParam(strip.compressor.release, compressor.release, ctx, ramp);
+    setAudioParam(strip.compressorWet.gain, compressor.enabled ? 1 : 0, ctx, ramp);
+    setAudioParam(strip.compressorBypass.gain, compressor.enabled ? 0 : 1, ctx, ramp);
+
+    setAudioParam(strip.delay.delayTime, Math.max(0.01, Math.min(2, delay.time)), ctx, ramp);
+    setAudioParam(strip.delayFeedback.gain, Math.max(0, Math.min(0.9, delay.feedback)), ctx, ramp);
+    setAudioParam(strip.delayWet.gain, delay.enabled ? delay.mix : 0, ctx, ramp);
+
+    if (strip.reverbSend) {
+        const send = Math.max(0, Math.min(100, reverbSend)) / 100;
+        setAudioParam(strip.reverbSend.gain, send, ctx, ramp);
+    }
+}
+
+/**
+ * Return the strip for a channel, creating it on first use. Existing strips are updated to
+ * the channel's current settings with a short ramp so live changes do not click.
+ */
+export function getChannelStrip(chain: AudioOutputChain, channel: NoteChannel): ChannelStrip {
+    const { ctx } = chain;
+    const key = channel.id ?? channel.name;
+    const existing = chain.strips.get(key);
+    if (existing) {
+        applyChannelStrip(chain, existing, channel, true);
+        return existing;
+    }
+
+    const volume = ctx.createGain();
+    const lowShelf = ctx.createBiquadFilter();
+    lowShelf.type = 'lowshelf';
+    const highShelf = ctx.createBiquadFilter();
+    highShelf.type = 'highshelf';
+    volume.connect(lowShelf).connect(highShelf);
+
+    // Compressor in parallel with a bypass path; exactly one of the two gains is open
+    const compressor = ctx.createDynamicsCompressor();
+    const compressorWet = ctx.createGain();
+    const compressorBypass = ctx.createGain();
+    const insertOut = ctx.createGain();
+    highShelf.connect(compressor).connect(compressorWet).connect(insertOut);
+    highShelf.connect(compressorBypass).connect(insertOut);
+
+    // Feedback delay mixed in next to the direct signal
+    const delay = ctx.createDelay(2);
+    const delayFeedback = ctx.createGain();
+    const delayWet = ctx.createGain();
+    const delayMix = ctx.createGain();
+    insertOut.connect(delayMix);
+    insertOut.connect(delay);
+    delay.connect(delayFeedback).connect(delay);
+    delay.connect(delayWet).connect(delayMix);
+
+    const panner = typeof ctx.createStereoPanner === 'function' ? ctx.createStereoPanner() : null;
+    const meter = ctx.createAnalyser();
+    meter.fftSize = 1024;
+    (panner ? delayMix.connect(panner) : delayMix).connect(meter);
+
+    let reverbSend: GainNode | null = null;
+    if (chain.reverbNode && chain.reverbGain && chain.dryGain) {
+        reverbSend = ctx.createGain();
+        meter.connect(chain.dryGain);
+        meter.connect(reverbSend).connect(chain.reverbNode);
+    } else {
+        meter.connect(chain.masterGain);
+    }
+
+    const strip: ChannelStrip = {
+        volume,
+        lowShelf,
+        highShelf,
+        compressor,
+        compressorWet,
+        compressorBypass,
+        insertOut,
+        delay,
+        delayFeedback,
+        delayWet,
+        delayMix,
+        panner,
+        meter,
+        reverbSend
+    };
+    applyChannelStrip(chain, strip, channel, false);
+    chain.strips.set(key, strip);
+    return strip;
+}
+
+export function disposeChannelStrip(strip: ChannelStrip): void {
+    try {
+        strip.volume.disconnect();
+        strip.lowShelf.disconnect();
+        strip.highShelf.disconnect();
+        strip.compressor.disconnect();
+        strip.compressorWet.disconnect();
+        strip.compressorBypass.disconnect();
+        strip.insertOut.disconnect();
+        strip.delay.disconnect();
+        strip.delayFeedback.disconnect();
+        strip.delayWet.disconnect();
+        strip.delayMix.disconnect();
+        strip.panner?.disconnect();
+        strip.meter.disconnect();
+        strip.reverbSend?.disconnect();
+    } catch {}
+}
+
+export function connectWithReverb(
+    source: AudioBufferSourceNode,
+    gainValue: number,
+    pan: number,
+    chain: AudioOutputChain
+): void {
+    const gain = chain.ctx.createGain();
+    gain.gain.value = gainValue;
+    source.connect(gain);
+
+    // Pan before the dry/wet split so the reverb follows the channel position
+    const panner = createPanNode(chain.ctx, pan);
+    connectToOutput(panner ? gain.connect(panner) : gain, chain);
+}
+
+/** A decoded instrument sample and the key it plays unpitched at. */
+export type InstrumentSample = {
+    buffer: AudioBuffer;
+    baseKey: number;
+};
+
+/**
+ * Create, route and start a sample voice for a note. Voices of a channel go through its
+ * strip; a plain pan value is used for previews that do not belong to a channel.
+ * The note's own pan is applied before the channel strip, so it adds to the channel pan.
+ * Shared by previews, the live scheduler and offline rendering so they all sound the same.
+ */
+export function startNoteVoice(
+    chain: AudioOutputChain,
+    sample: InstrumentSample,
+    key: number,
+    velocity: number,
+    pitch: number,
+    target: NoteChannel | number,
+    when?: number,
+    rate = 1,
+    notePan = 0
+): AudioBufferSourceNode {
+    const src = chain.ctx.createBufferSource();
+    src.buffer = sample.buffer;
+    src.playbackRate.value = calculatePlaybackRate(key, pitch, sample.baseKey) * rate;
+    const gainValue = (velocity / 100) * 0.5;
+    if (typeof target === 'number') {
+        connectWithReverb(src, gainValue, Math.max(-100, Math.min(100, target + notePan)), chain);
+    } else {
+        const gain = chain.ctx.createGain();
+        gain.gain.value = gainValue;
+        const panner = createPanNode(chain.ctx, notePan);
+        src.connect(gain);
+        (panner ? gain.connect(panner) : gain).connect(getChannelStrip(chain, target).volume);
+    }
+    startAudioSource(src, when);
+    return src;
+}
+
+export function calculatePlaybackRate(
+    key: number,
+    pitch: number,
+    baseSampleKey = BUILT_IN_SAMPLE_KEY
+): number {
+    const keyOffset = key - baseSampleKey;
+    const pitchOffset = pitch / 1200;
+    return Math.pow(2, (keyOffset + pitchOffset) / 12);
+}
+
+export function startAudioSource(src: AudioBufferSourceNode, when?: number): void {
+    try {
+        src.start(when);
+    } catch {
+        try {
+            src.start();
+        } catch {}
+    }
+}
+
+/**
+ * Generate a stereo reverb impulse response: noise under an exponential decay.
+ * @param duration Length in seconds
+ * @param decay Envelope exponent; higher values die away faster
+ */
+export function createReverbImpulse(
+    ctx: BaseAudioContext,
+    duration: number = DEFAULT_SONG_MIXING.reverbSize,
+    decay: number = DEFAULT_SONG_MIXING.reverbDecay
+): AudioBuffer {
+    const sampleRate = ctx.sampleRate;
+    const length = Math.max(1, Math.round(sampleRate * Math.max(0.1, duration)));
+    const impulse = ctx.createBuffer(2, length, sampleRate);
+
+    for (let channel = 0; channel < 2; channel++) {
+        const channelData = impulse.getChannelData(channel);
+        for (let i = 0; i < length; i++) {
+            const n = length - i;
+            // Create exponential decay with some noise for natural reverb
+            const envelope = Math.pow(n / length, decay);
+            const noise = (Math.random() * 2 - 1) * envelope;
+            channelData[i] = noise;
+        }
+    }
+
+    return impulse;
+}
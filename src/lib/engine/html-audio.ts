@@ -0,0 +1,147 @@
+import { browser } from '$app/environment';
+import { isCustomInstrument } from '../custom-instruments';
+import { Instrument } from '../types';
+import { calculatePlaybackRate } from './audio-graph';
+import { getClickGain, METRONOME_SOUNDS, type ClickLevel, type MetronomeSound } from './metronome';
+
+/**
+ * HTML Audio fallback used until Web Audio is ready, and the DOM events the editor uses to
+ * highlight notes while they play.
+ */
+
+const soundMap: Record<Instrument, HTMLAudioElement> = browser
+    ? {
+          [Instrument.Banjo]: new Audio('/notes/banjo.ogg'),
+          [Instrument.DoubleBass]: new Audio('/notes/bass.ogg'),
+          [Instrument.BassDrum]: new Audio('/notes/bd.ogg'),
+          [Instrument.Bell]: new Audio('/notes/bell.ogg'),
+          [Instrument.Bit]: new Audio('/notes/bit.ogg'),
+          [Instrument.CowBell]: new Audio('/notes/cow_bell.ogg'),
+          [Instrument.Didgeridoo]: new Audio('/notes/didgeridoo.ogg'),
+          [Instrument.Flute]: new Audio('/notes/flute.ogg'),
+          [Instrument.Guitar]: new Audio('/notes/guitar.ogg'),
+          [Instrument.Piano]: new Audio('/notes/harp.ogg'),
+          [Instrument.Click]: new Audio('/notes/hat.ogg'),
+          [Instrument.Chime]: new Audio('/notes/icechime.ogg'),
+          [Instrument.IronXylophone]: new Audio('/notes/iron_xylophone.ogg'),
+          [Instrument.Pling]: new Audio('/notes/pling.ogg'),
+          [Instrument.SnareDrum]: new Audio('/notes/snare.ogg'),
+          [Instrument.Xylophone]: new Audio('/notes/xylobone.ogg')
+      }
+    : ({} as Record<Instrument, HTMLAudioElement>);
+
+const metronomeSounds = (
+    browser
+        ? Object.fromEntries(
+              Object.entries(METRONOME_SOUNDS).map(([sound, { url }]) => [sound, new Audio(url)])
+          )
+        : {}
+) as Record<MetronomeSound, HTMLAudioElement>;
+
+function configureAudioElement(el: HTMLAudioElement): void {
+    el.preload = 'auto';
+    (el as any).preservesPitch = false;
+    (el as any).mozPreservesPitch = false;
+    (el as any).webkitPreservesPitch = false;
+}
+
+function configureBaseAudio(): void {
+    if (!browser) return;
+    for (const instKey of Object.keys(soundMap)) {
+        const inst = Number(instKey) as Instrument;
+        const el = soundMap[inst];
+        if (!el) continue;
+        configureAudioElement(el);
+    }
+    // Metronome base config
+    for (const el of Object.values(metronomeSounds)) configureAudioElement(el);
+}
+
+const audioPool: Record<Instrument, HTMLAudioElement[]> = browser
+    ? ({} as Record<Instrument, HTMLAudioElement[]>)
+    : ({} as Record<Instrument, HTMLAudioElement[]>);
+
+const MAX_POOL_SIZE = 16;
+
+function createPooledAudio(instrument: Instrument): HTMLAudioElement {
+    const base = soundMap[instrument];
+    const node = base.cloneNode(true) as HTMLAudioElement;
+    node.preload = 'auto';
+    (node as any).preservesPitch = false;
+    (node as any).mozPreservesPitch = false;
+    (node as any).webkitPreservesPitch = false;
+    return node;
+}
+
+function resetAudioElement(el: HTMLAudioElement): void {
+    try {
+        el.currentTime = 0;
+    } catch {}
+}
+
+function getPooledAudio(instrument: Instrument): HTMLAudioElement {
+    if (!browser) return {} as HTMLAudioElement;
+    const pool = (audioPool[instrument] ||= []);
+    for (const el of pool) {
+        if (el.ended || el.paused) {
+            resetAudioElement(el);
+            return el;
+        }
+    }
+    if (pool.length < MAX_POOL_SIZE) {
+        const el = createPooledAudio(instrument);
+        pool.push(el);
+        return el;
+    }
+    const reused = pool[0];
+    resetAudioElement(reused);
+    return reused;
+}
+
+configureBaseAudio();
+
+/** Play a metronome click through HTML Audio, for when Web Audio is not ready. */
+export function playHtmlMetronome(level: ClickLevel, sound: MetronomeSound, volume: number) {
+    if (!browser) return;
+    const base = metronomeSounds[sound];
+    if (!base) return;
+    try {
+        base.currentTime = 0;
+    } catch {}
+    base.volume = Math.min(1, getClickGain(level, volume) * 0.8);
+    void base.play();
+}
+
+/** URL of the bundled sample for a built-in instrument. */
+export function getBundledSampleUrl(instrument: Instrument): string | null {
+    return soundMap[instrument]?.src ?? null;
+}
+
+export async function playWithHtmlAudio(
+    instrument: Instrument,
+    key: number,
+    velocity: number,
+    pitch: number
+) {
+    // Custom samples only exist as decoded buffers, so they need Web Audio
+    if (isCustomInstrument(instrument)) return;
+    const audio = getPooledAudio(instrument);
+    audio.volume = (velocity / 100) * 0.5;
+
+    audio.playbackRate = calculatePlaybackRate(key, pitch);
+
+    return await audio.play();
+}
+
+// Emit DOM events when notes play so the UI can highlight
+export function emitNotePlayed(noteId: string, durationMs = 120) {
+    if (!browser) return;
+    try {
+        document.dispatchEvent(new CustomEvent('noteplayed', { detail: { id: noteId } }));
+    } catch {}
+    setTimeout(() => {
+        try {
+            document.dispatchEvent(new CustomEvent('noteended', { detail: { id: noteId } }));
+        } catch {}
+    }, durationMs);
+}
@@ -0,0 +1,89 @@
+/**
+ * Metronome settings shared by the Transport, which decides when to click, and the audio
+ * engines, which decide how a click sounds.
+ */
+
+/** Clicks per beat: quarters, eighths, triplets or sixteenths. */
+export type MetronomeSubdivision = 1 | 2 | 3 | 4;
+
+/** How a beat of the bar clicks; `'off'` leaves the beat silent but keeps its subdivisions. */
+export type AccentLevel = 'accent' | 'beat' | 'off';
+
+/** A click as the engines play it: an accented or regular beat, or a subdivision. */
+export type ClickLevel = 'accent' | 'beat' | 'sub';
+
+export type MetronomeSound = 'classic' | 'hat' | 'cowbell' | 'bit';
+
+export interface MetronomeSettings {
+    subdivision: MetronomeSubdivision;
+    accents: Record<string, AccentLevel[]>; // Accent pattern by beats per bar
+    volume: number; // 0 to 100
+    sound: MetronomeSound;
+    countInOnly: boolean; // Only click during the count-in, not while the song plays
+}
+
+export const DEFAULT_METRONOME_SETTINGS: MetronomeSettings = {
+    subdivision: 1,
+    accents: {},
+    volume: 80,
+    sound: 'classic',
+    countInOnly: false
+};
+
+export const METRONOME_SUBDIVISIONS: { value: MetronomeSubdivision; label: string }[] = [
+    { value: 1, label: 'Quarters' },
+    { value: 2, label: 'Eighths' },
+    { value: 3, label: 'Triplets' },
+    { value: 4, label: 'Sixteenths' }
+];
+
+export const METRONOME_SOUNDS: Record<MetronomeSound, { label: string; url: string }> = {
+    classic: { label: 'Classic', url: '/metronome.wav' },
+    hat: { label: 'Hi-hat', url: '/notes/hat.ogg' },
+    cowbell: { label: 'Cowbell', url: '/notes/cow_bell.ogg' },
+    bit: { label: 'Bit', url: '/notes/bit.ogg' }
+};
+
+/**
+ * Accent pattern of a bar with `beatsPerBar` beats. Without a custom pattern the first
+ * beat is accented; a custom pattern is cut or padded with regular beats to fit.
+ */
+export function getAccentPattern(settings: MetronomeSettings, beatsPerBar: number): AccentLevel[] {
+    const custom = settings.accents[String(beatsPerBar)] ?? [];
+    return Array.from(
+        { length: Math.max(0, beatsPerBar) },
+        (_, beat) => custom[beat] ?? (beat === 0 ? 'accent' : 'beat')
+    );
+}
+
+/** Gain of a click at a level, scaled by the metronome volume. */
+export function getClickGain(level: ClickLevel, volume: number): number {
+    const base = level === 'accent' ? 0.8 : level === 'beat' ? 0.5 : 0.3;
+    return (base * Math.max(0, Math.min(100, volume))) / 100;
+}
+
+/** Settings with missing or invalid fields replaced by their defaults, e.g. when loading. */
+export function normalizeMetronomeSettings(
+    settings: Partial<MetronomeSettings> | null | undefined
+): MetronomeSettings {
+    const merged = { ...DEFAULT_METRONOME_SETTINGS, ...settings };
+    const subdivision = METRONOME_SUBDIVISIONS.some(({ value }) => value === merged.subdivision)
+        ? merged.subdivision
+        : DEFAULT_METRONOME_SETTINGS.subdivision;
+    const sound = Object.hasOwn(METRONOME_SOUNDS, merged.sound)
+        ? merged.sound
+        : DEFAULT_METRONOME_SETTINGS.sound;
+    const volume = Number.isFinite(merged.volume)
+        ? Math.max(0, Math.min(100, merged.volume))
+        : DEFAULT_METRONOME_SETTINGS.volume;
+    const accents: Record<string, AccentLevel[]> = {};
+    if (merged.accents && typeof merged.accents === 'object') {
+        for (const [beats, pattern] of Object.entries(merged.accents)) {
+            if (!Array.isArray(pattern)) continue;
+            accents[beats] = pattern.map((level) =>
+                level === 'accent' || level === 'off' ? level : 'beat'
+            );
+        }
+    }
+    return { subdivision, accents, volume, sound, countInOnly: !!merged.countInOnly };
+}
@@ -0,0 +1,33 @@
+import type { AudioEngine, NoteVoice } from './audio-engine';
+import type { ClickLevel } from './metronome';
+
+export interface NullEngineListener {
+    onNote?(voice: NoteVoice, when: number): void;
+    onClick?(level: ClickLevel, when: number): void;
+}
+
+/**
+ * Engine that makes no sound. Its clock follows `performance.now()`, so a Transport runs in
+ * real time without an AudioContext, and the listener sees every voice it would have played.
+ */
+export class NullEngine implements AudioEngine {
+    private readonly origin = performance.now();
+
+    constructor(private readonly listener: NullEngineListener = {}) {}
+
+    get currentTime() {
+        return (performance.now() - this.origin) / 1000;
+    }
+
+    async prepare() {}
+
+    playNote(voice: NoteVoice, when = this.currentTime) {
+        this.listener.onNote?.(voice, when);
+    }
+
+    playClick(level: ClickLevel, when = this.currentTime) {
+        this.listener.onClick?.(level, when);
+    }
+
+    cancelScheduled() {}
+}
@@ -0,0 +1,117 @@
+import type { Instrument, SongMixing } from '../types';
+import type { AudioEngine, NoteVoice } from './audio-engine';
+import {
+    createOutputChain,
+    startNoteVoice,
+    type AudioOutputChain,
+    type InstrumentSample
+} from './audio-graph';
+import type { Transport } from './transport.svelte';
+
+/**
+ * Options for rendering the song through an OfflineAudioContext.
+ */
+export interface OfflineRenderOptions {
+    /** Render the whole song or only the loop selection. Defaults to `'song'`. */
+    range?: 'song' | 'selection';
+    /** Output sample rate. Defaults to the live AudioContext rate. */
+    sampleRate?: number;
+    /** Seconds rendered after the last tick so samples and reverb can ring out. */
+    tailSeconds?: number;
+    /**
+     * Only render these channels (by id). Listed channels are rendered even when muted,
+     * which is what stem export needs.
+     */
+    channelIds?: string[];
+    /** Render the full mix, only the dry path or only the reverb return. Defaults to `'mix'`. */
+    reverb?: 'mix' | 'dry' | 'wet';
+    /** Run the master limiter when the song has it on. Defaults to `true`. */
+    limiter?: boolean;
+}
+
+/** Samples and mix settings a render uses, normally taken from the live engine. */
+export interface OfflineRenderSource {
+    getSample(instrument: Instrument): InstrumentSample | null;
+    impulse: AudioBuffer | null;
+    mixing: SongMixing;
+    sampleRate: number;
+}
+
+/**
+ * Engine writing voices into an offline output chain. Metronome clicks are not rendered,
+ * and a note without a decoded sample fails the render rather than going missing.
+ */
+export class OfflineEngine implements AudioEngine {
+    constructor(
+        private readonly chain: AudioOutputChain,
+        private readonly getSample: (instrument: Instrument) => InstrumentSample | null
+    ) {}
+
+    get currentTime() {
+        return this.chain.ctx.currentTime;
+    }
+
+    async prepare() {}
+
+    playNote({ note, instrument, channel, rate }: NoteVoice, when = 0) {
+        const sample = this.getSample(instrument);
+        if (!sample) throw new Error(`No sample loaded for instrument ${instrument}`);
+        startNoteVoice(
+            this.chain,
+            sample,
+            note.key,
+            note.velocity,
+            note.pitch,
+            channel,
+            when,
+            rate,
+            note.pan
+        );
+    }
+
+    playClick() {}
+
+    cancelScheduled() {}
+}
+
+/**
+ * Render the song (or the loop selection) faster than real time through an
+ * OfflineAudioContext. The transport plans and voices the ticks like live playback, but
+ * always by the song's own tempo map: the playback rate and Minecraft timing are left out.
+ * Every sample the render needs must be decoded beforehand.
+ */
+export async function renderOffline(
+    transport: Transport,
+    songLength: number,
+    source: OfflineRenderSource,
+    options: OfflineRenderOptions = {}
+): Promise<AudioBuffer> {
+    let range = { start: 0, end: songLength };
+    if (options.range === 'selection') {
+        const selection = transport.getSelectionRange();
+        if (!selection) throw new Error('No loop selection to render');
+        range = selection;
+    }
+
+    const { ticks, duration } = transport.planRange(range.start, range.end);
+
+    const sampleRate = options.sampleRate ?? source.sampleRate;
+    const tailSeconds = options.tailSeconds ?? 2;
+    const length = Math.max(1, Math.ceil((duration + tailSeconds) * sampleRate));
+    const ctx = new OfflineAudioContext(2, length, sampleRate);
+    const chain = createOutputChain(ctx, source.impulse, source.mixing);
+    if (options.reverb === 'dry' && chain.reverbGain) chain.reverbGain.gain.value = 0;
+    if (options.reverb === 'wet' && chain.dryGain) chain.dryGain.gain.value = 0;
+    if (options.limiter === false) {
+        chain.limiterWet.gain.value = 0;
+        chain.limiterBypass.gain.value = 1;
+    }
+
+    const engine = new OfflineEngine(chain, (instrument) => source.getSample(instrument));
+    const channelIds = options.channelIds ? new Set(options.channelIds) : undefined;
+    for (const planned of ticks) {
+        transport.playPlannedTick(planned, engine, { rate: 1, channelIds, songTiming: true });
+    }
+
+    return await ctx.startRendering();
+}
@@ -0,0 +1,252 @@
+/**
+ * Look-ahead planning for the audio scheduler.
+ *
+ * The clock runs inside a Worker (see scheduler-clock.worker.ts) so its timer keeps firing
+ * while the main thread is busy re-rendering. It walks the tempo map and loop settings and
+ * sends batches of ticks with their exact audio start times; the Transport turns those into
+ * voices, which the audio engine then starts sample-accurately.
+ *
+ * Voices are still created on the main thread when a batch arrives, so a stall longer than
+ * the look-ahead delays the notes in it. The Transport reports how long each batch waited,
+ * and the clock adds twice the longest wait to its base look-ahead, up to one second.
+ */
+
+import type { AccentLevel } from './metronome';
+
+/** Sorted ticks that have at least one note; built alongside SongModel's note index. */
+export interface CompactNoteIndex {
+    ticks: Int32Array;
+}
+
+export interface SchedulerConfig {
+    tempoChanges: { tick: number; tempo: number }[]; // Sorted by tick
+    baseTempo: number; // Tempo before the first change
+    tempoOverride: number | null; // Single tempo for the whole song, e.g. Minecraft timing
+    rate: number; // Transport rate multiplier
+    endTick: number; // Playback stops, or loops, once it reaches this tick
+    loopSong: boolean;
+    selection: { start: number; end: number } | null; // Selection loop
+    region: { start: number; end: number; repeats: number | null } | null; // Region loop
+    metronome: MetronomeSegment[] | null;
+}
+
+/** Time signature segment the metronome clicks in, with the accent of each beat. */
+export interface MetronomeSegment {
+    start: number;
+    end: number;
+    tpb: number;
+    bpb: number;
+    accents: AccentLevel[]; // One per beat of the bar
+}
+
+export interface SchedulerCursor {
+    tick: number;
+    time: number; // Audio context time the tick starts at
+    loopWraps: number; // Region loop repeats already played
+}
+
+/** Maps wall-clock time to audio context time, since a Worker has no AudioContext. */
+export interface ClockSync {
+    audioTime: number;
+    wallTime: number; // performance.timeOrigin + performance.now() in milliseconds
+}
+
+export interface PlannedTick {
+    tick: number;
+    when: number;
+    hasNotes: boolean;
+    click: AccentLevel | null; // Set on beat boundaries while the metronome is on
+}
+
+export type SchedulerRequest =
+    | { type: 'index'; index: CompactNoteIndex }
+    | {
+          type: 'start';
+          epoch: number;
+          config: SchedulerConfig;
+          cursor: SchedulerCursor;
+          clock: ClockSync;
+      }
+    | { type: 'stop' }
+    | { type: 'lag'; seconds: number }; // How long the main thread took to pick up a batch
+
+// Every response carries the epoch of the 'start' it belongs to, so the Transport can drop
+// batches planned before a seek or state change
+export type SchedulerResponse =
+    | { type: 'ticks'; epoch: number; ticks: PlannedTick[]; sentAt: number } // Audio time
+    | { type: 'end'; epoch: number };
+
+const INTERVAL_MS = 25;
+const BASE_LOOKAHEAD_SEC = 0.2;
+const MAX_LOOKAHEAD_SEC = 1;
+
+/**
+ * Walks ticks from a cursor, applying tempo, rate and loop settings exactly like live
+ * playback, and reports the ones that need audio.
+ */
+export class SchedulePlanner {
+    private noteTicks = new Set<number>();
+    private config: SchedulerConfig | null = null;
+    private tick = 0;
+    private time = 0;
+    private loopWraps = 0;
+
+    setIndex(index: CompactNoteIndex) {
+        this.noteTicks = new Set(index.ticks);
+    }
+
+    start(config: SchedulerConfig, cursor: SchedulerCursor) {
+        this.config = config;
+        this.tick = cursor.tick;
+        this.time = cursor.time;
+        this.loopWraps = cursor.loopWraps;
+    }
+
+    stop() {
+        this.config = null;
+    }
+
+    get isRunning() {
+        return this.config !== null;
+    }
+
+    /** Where planning continues from; after the end of the song, the time playback ends. */
+    get cursor(): SchedulerCursor {
+        return { tick: this.tick, time: this.time, loopWraps: this.loopWraps };
+    }
+
+    /**
+     * Plan every tick starting before `until`. `ended` is set once playback reaches the
+     * end of the song without looping, after which the planner stops.
+     */
+    plan(until: number): { ticks: PlannedTick[]; ended: boolean } {
+        const ticks: PlannedTick[] = [];
+        const config = this.config;
+        if (!config) return { ticks, ended: false };
+
+        while (this.time < until) {
+            // Region loop: jump straight back to the start, keeping the time line continuous
+            const region = config.region;
+            if (
+                region &&
+                this.tick === region.end &&
+                (region.repeats === null || this.loopWraps < region.repeats - 1)
+            ) {
+                this.tick = region.start;
+                this.loopWraps++;
+            }
+
+            // Loop/stop handling
+            if (this.tick >= config.endTick) {
+                if (config.loopSong) {
+                    this.tick = 0;
+                } else if (config.selection) {
+                    if (this.tick >= config.selection.end) this.tick = config.selection.start;
+                } else {
+                    this.config = null;
+                    return { ticks, ended: true };
+                }
+            }
+
+            // Selection loop wrap (mid-song)
+            if (config.selection && this.tick >= config.selection.end) {
+                this.tick = config.selection.start;
+            }
+
+            const hasNotes = this.noteTicks.has(this.tick);
+            const click = this.getClick(config, this.tick);
+            if (hasNotes || click) {
+                ticks.push({ tick: this.tick, when: this.time, hasNotes, click });
+            }
+
+            // Advance time by current tempo
+            const tempo = config.tempoOverride ?? this.getTempoAtTick(config, this.tick);
+            this.time += tempo > 0 ? 1 / (tempo * config.rate) : 0.05; // fallback
+            this.tick += 1;
+        }
+
+        return { ticks, ended: false };
+    }
+
+    private getTempoAtTick(config: SchedulerConfig, tick: number): number {
+        let tempo = config.baseTempo;
+        for (const change of config.tempoChanges) {
+            if (change.tick <= tick) tempo = change.tempo;
+            else break;
+        }
+        return tempo;
+    }
+
+    // Metronome on beat boundaries, with the accent the segment's pattern gives the beat
+    private getClick(config: SchedulerConfig, tick: number): PlannedTick['click'] {
+        const segments = config.metronome;
+        if (!segments?.length) return null;
+        const seg =
+            segments.find((s) => tick >= s.start && tick < s.end) ?? segments[segments.length - 1];
+        const ticksInto = tick - seg.start;
+        if (seg.tpb <= 0 || ticksInto < 0 || ticksInto % seg.tpb !== 0) return null;
+        const beatInBar = Math.floor(ticksInto / seg.tpb) % seg.bpb;
+        return seg.accents[beatInBar] ?? 'beat';
+    }
+}
+
+/**
+ * Create the clock's message handler. The Worker wires it to postMessage; the Transport
+ * uses it in-process when Workers are unavailable.
+ * @param post Receives planned batches
+ * @returns A function that handles one request
+ */
+export function createSchedulerClock(
+    post: (response: SchedulerResponse) => void
+): (request: SchedulerRequest) => void {
+    const planner = new SchedulePlanner();
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let epoch = 0;
+    let clock: ClockSync = { audioTime: 0, wallTime: 0 };
+    let lookahead = BASE_LOOKAHEAD_SEC;
+
+    const audioNow = () =>
+        clock.audioTime + (performance.timeOrigin + performance.now() - clock.wallTime) / 1000;
+
+    const run = () => {
+        if (!planner.isRunning) return;
+        const { ticks, ended } = planner.plan(audioNow() + lookahead);
+        if (ticks.length) post({ type: 'ticks', epoch, ticks, sentAt: audioNow() });
+        if (ended) {
+            post({ type: 'end', epoch });
+            stopTimer();
+        }
+    };
+
+    const stopTimer = () => {
+        if (timer) clearInterval(timer);
+        timer = null;
+    };
+
+    return (request) => {
+        switch (request.type) {
+            case 'index':
+                planner.setIndex(request.index);
+                break;
+            case 'start':
+                epoch = request.epoch;
+                clock = request.clock;
+                planner.start(request.config, request.cursor);
+                if (!timer) timer = setInterval(run, INTERVAL_MS);
+                // Run one immediate pass to reduce initial latency
+                run();
+                break;
+            case 'stop':
+                planner.stop();
+                stopTimer();
+                break;
+            case 'lag':
+                // Plan far enough ahead that a batch delayed as long still arrives in time
+                lookahead = Math.min(
+                    MAX_LOOKAHEAD_SEC,
+                    Math.max(lookahead, BASE_LOOKAHEAD_SEC + request.seconds * 2)
+                );
+                break;
+        }
+    };
+}
@@ -0,0 +1,6 @@
+import { createSchedulerClock, type SchedulerRequest } from './scheduler-clock';
+
+// Runs the scheduler clock off the main thread; see scheduler-clock.ts
+const handle = createSchedulerClock((response) => postMessage(response));
+
+onmessage = (event: MessageEvent<SchedulerRequest>) => handle(event.data);
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { Song, TempoChange } from '../types';
+import { SongModel } from './song-model';
+
+function modelWithTempoChanges(tempoChanges: TempoChange[]): SongModel {
+    const song: Song = {
+        length: 64,
+        tempo: 10,
+        channels: [{ kind: 'tempo', name: 'Tempo', tempoChanges }],
+        name: '',
+        author: '',
+        description: ''
+    };
+    const model = new SongModel();
+    model.setSong(song);
+    return model;
+}
+
+describe('bar and beat math', () => {
+    // 4/4 with 4 ticks per beat: a bar is 16 ticks
+    const fourFour = { ticksPerBeat: 4, beatsPerBar: 4 };
+
+    it('keeps counting bars across a mid-bar tempo change', () => {
+        const model = modelWithTempoChanges([
+            { tick: 0, tempo: 10, ...fourFour },
+            { tick: 6, tempo: 8, ...fourFour },
+            { tick: 21, tempo: 6, ...fourFour }
+        ]);
+
+        expect(model.getSegments()).toEqual([{ start: 0, end: 64, tpb: 4, bpb: 4 }]);
+        expect(model.computeBarBeatAtTick(6)).toEqual({ bar: 0, beat: 1 });
+        expect(model.computeBarBeatAtTick(16)).toEqual({ bar: 1, beat: 0 });
+        expect(model.computeBarBeatAtTick(36)).toEqual({ bar: 2, beat: 1 });
+        expect(model.getBarStartTick(2)).toBe(32);
+        expect(model.snapTickToNearestBarStart(20)).toBe(16);
+        expect(model.snapTickToNearestBarStart(25)).toBe(32);
+    });
+
+    it('starts a new bar where the time signature changes', () => {
+        const model = modelWithTempoChanges([
+            { tick: 0, tempo: 10, ...fourFour },
+            { tick: 10, tempo: 8, ...fourFour },
+            { tick: 32, tempo: 8, ticksPerBeat: 4, beatsPerBar: 3 }
+        ]);
+
+        expect(model.getSegments()).toEqual([
+            { start: 0, end: 32, tpb: 4, bpb: 4 },
+            { start: 32, end: 64, tpb: 4, bpb: 3 }
+        ]);
+        expect(model.computeBarBeatAtTick(44)).toEqual({ bar: 3, beat: 0 });
+        expect(model.getBarStartTick(3)).toBe(44);
+    });
+});
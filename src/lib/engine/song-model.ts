@@ -0,0 +1,359 @@
+import { findCustomInstrument } from '../custom-instruments';
+import { createGameTickSchedule, isPlayableNoteblockKey, type GameTickSchedule } from '../datapack';
+import type { Instrument, Note, NoteChannel, Song, TempoChange } from '../types';
+import { generateChannelId } from '../utils';
+import type { CompactNoteIndex } from './scheduler-clock';
+
+/**
+ * Song data indexed for playback, plus the tick/bar/tempo math built on it.
+ *
+ * Holds no audio or UI state, so the transport, the engines and offline rendering can share
+ * it. The song object is edited in place by its owner, which calls `reindex()` afterwards.
+ */
+
+/** Tempo and time signature used where the song has no tempo change. */
+export interface TimingDefaults {
+    readonly tempo: number;
+    readonly ticksPerBeat: number;
+    readonly beatsPerBar: number;
+}
+
+export const DEFAULT_TIMING: TimingDefaults = { tempo: 20, ticksPerBeat: 10, beatsPerBar: 4 };
+
+/** A note with the channel it belongs to, as stored in the tick index. */
+export type IndexedNote = { note: Note; instrument: Instrument; channelId: string };
+
+/** A stretch of ticks sharing one time signature. */
+export type SignatureSegment = { start: number; end: number; tpb: number; bpb: number };
+
+export class SongModel {
+    private _song: Song | null = null;
+    private _tickNotes: Map<number, IndexedNote[]> = new Map();
+    private _noteTicks: CompactNoteIndex = { ticks: new Int32Array(0) };
+    private _tempoChanges: Map<number, TempoChange> = new Map();
+    // Cached sorted tempo changes for quick lookup
+    private _tempoChangeList: TempoChange[] = [];
+    // Map for resolving current channel objects by id (keeps up-to-date when channels replaced)
+    private _channelsById: Map<string, NoteChannel> = new Map();
+    // Built on demand for Minecraft timing; cleared whenever the song changes
+    private _gameTickSchedule: GameTickSchedule | null = null;
+
+    /**
+     * @param defaults Read whenever the song has no tempo change to go by; the Transport
+     * passes its current tempo and time signature.
+     */
+    constructor(private readonly defaults: () => TimingDefaults = () => DEFAULT_TIMING) {}
+
+    get song(): Song | null {
+        return this._song;
+    }
+
+    /** Ticks with notes, in the compact form the scheduler clock works with. */
+    get noteTicks(): CompactNoteIndex {
+        return this._noteTicks;
+    }
+
+    /** Tempo changes sorted by tick. */
+    get tempoChanges(): readonly TempoChange[] {
+        return this._tempoChangeList;
+    }
+
+    /**
+     * Load a song, or clear the model with `null`.
+     */
+    setSong(song: Song | null) {
+        this._song = song;
+        this.reindex();
+    }
+
+    /**
+     * Rebuild the indexes after the song was edited in place.
+     */
+    reindex() {
+        const { tickNotes, tempoChanges, channelsById } = SongModel.buildIndexes(this._song);
+        this._tickNotes = tickNotes;
+        this._noteTicks = { ticks: Int32Array.from(tickNotes.keys()).sort() };
+        this._tempoChanges = tempoChanges;
+        this._tempoChangeList = Array.from(tempoChanges.values()).sort((a, b) => a.tick - b.tick);
+        this._channelsById = channelsById;
+        this._gameTickSchedule = null;
+    }
+
+    getNotesAtTick(tick: number): IndexedNote[] | undefined {
+        return this._tickNotes.get(tick);
+    }
+
+    getTempoChangeAtTick(tick: number): TempoChange | undefined {
+        return this._tempoChanges.get(tick);
+    }
+
+    /** Resolve the current channel object for an id, even after channels were replaced. */
+    getChannel(channelId: string): NoteChannel | undefined {
+        const channel =
+            this._channelsById.get(channelId) ??
+            this._song?.channels.find((c) => (c as any).id === channelId);
+        return channel?.kind === 'note' ? channel : undefined;
+    }
+
+    findTempoChangeAtOrBeforeTick(tick: number): TempoChange | null {
+        for (let i = this._tempoChangeList.length - 1; i >= 0; i--) {
+            const change = this._tempoChangeList[i];
+            if (change.tick <= tick) return change;
+        }
+        return null;
+    }
+
+    getTempoAtTick(tick: number): number {
+        // Follow song tempo changes; fall back to current/base tempo
+        let tempo = this.defaults().tempo;
+        for (let i = 0; i < this._tempoChangeList.length; i++) {
+            const ch = this._tempoChangeList[i];
+            if (ch.tick <= tick) tempo = ch.tempo;
+            else break;
+        }
+        return tempo;
+    }
+
+    /**
+     * Compute an ordered list of time-signature segments covering the song.
+     * Only a change of time signature starts a segment (and a new bar): tempo changes can sit
+     * anywhere, e.g. the mid-bar tempo events of an imported MIDI ritardando.
+     */
+    getSegments(): SignatureSegment[] {
+        const { ticksPerBeat, beatsPerBar } = this.defaults();
+        const length = this._song?.length ?? Number.POSITIVE_INFINITY;
+        const changes = this._tempoChangeList;
+
+        const segments: SignatureSegment[] = [];
+
+        // Determine base signature at 0 if no change at 0
+        const firstChangeAtZero = changes.length > 0 && changes[0].tick === 0;
+        let cursor = 0;
+        let currentTpb = firstChangeAtZero ? changes[0].ticksPerBeat : ticksPerBeat;
+        let currentBpb = firstChangeAtZero ? changes[0].beatsPerBar : beatsPerBar;
+
+        for (let i = firstChangeAtZero ? 1 : 0; i < changes.length; i++) {
+            const ch = changes[i];
+            if (ch.ticksPerBeat === currentTpb && ch.beatsPerBar === currentBpb) continue;
+            if (cursor < ch.tick) {
+                segments.push({ start: cursor, end: ch.tick, tpb: currentTpb, bpb: currentBpb });
+                cursor = ch.tick;
+            }
+            currentTpb = ch.ticksPerBeat;
+            currentBpb = ch.beatsPerBar;
+        }
+
+        if (cursor < length) {
+            segments.push({ start: cursor, end: length, tpb: currentTpb, bpb: currentBpb });
+        }
+
+        // No song loaded and no changes: provide an open-ended default segment
+        if (!this._song && segments.length === 0) {
+            segments.push({
+                start: 0,
+                end: Number.POSITIVE_INFINITY,
+                tpb: ticksPerBeat,
+                bpb: beatsPerBar
+            });
+        }
+
+        return segments;
+    }
+
+    /**
+     * Return the time-signature segment active at a tick.
+     */
+    getSegmentAtTick(tick: number): SignatureSegment | null {
+        const segments = this.getSegments();
+        for (const seg of segments) {
+            if (tick >= seg.start && tick < seg.end) return seg;
+        }
+        return segments.length ? segments[segments.length - 1] : null;
+    }
+
+    getSignatureAtTick(tick: number): { tpb: number; bpb: number; segStart: number } {
+        // Use existing segment computation for tpb/bpb and start
+        const seg = this.getSegmentAtTick(tick);
+        if (seg) return { tpb: seg.tpb, bpb: seg.bpb, segStart: seg.start };
+        const { ticksPerBeat, beatsPerBar } = this.defaults();
+        return { tpb: ticksPerBeat, bpb: beatsPerBar, segStart: 0 };
+    }
+
+    /**
+     * Convert a tick to bar/beat using the time-signature segments.
+     * Bar and beat are 0-based.
+     */
+    computeBarBeatAtTick(tick: number): { bar: number; beat: number } {
+        const segments = this.getSegments();
+        let barAccum = 0;
+        for (const seg of segments) {
+            if (tick >= seg.end) {
+                const segTicks = seg.end - seg.start;
+                const barsInSeg = Math.floor(segTicks / (seg.tpb * seg.bpb));
+                barAccum += barsInSeg;
+                continue;
+            }
+            if (tick >= seg.start && tick < seg.end) {
+                const ticksInto = tick - seg.start;
+                const beatsInto = Math.floor(ticksInto / seg.tpb);
+                const barInSeg = Math.floor(beatsInto / seg.bpb);
+                const beatInBar = beatsInto % seg.bpb;
+                return { bar: barAccum + barInSeg, beat: beatInBar };
+            }
+        }
+        // Past end of song: clamp to last position
+        if (segments.length > 0) {
+            const last = segments[segments.length - 1];
+            const segTicks = Math.max(0, (this._song?.length ?? last.end) - last.start);
+            const barsInSeg = Math.floor(segTicks / (last.tpb * last.bpb));
+            return { bar: barAccum + barsInSeg, beat: 0 };
+        }
+        return { bar: 0, beat: 0 };
+    }
+
+    /**
+     * Convert bar/beat (0-based) to a tick, clamped to song bounds if loaded.
+     */
+    findTickForBarBeat(bar: number, beat: number): { tick: number } {
+        const segments = this.getSegments();
+        const targetBar = Math.max(0, bar | 0);
+        let barAccum = 0;
+        for (const seg of segments) {
+            const barsInSeg = Math.floor((seg.end - seg.start) / (seg.tpb * seg.bpb));
+            if (targetBar < barAccum + barsInSeg) {
+                const barWithin = targetBar - barAccum;
+                const clampedBeat = Math.min(Math.max(0, beat | 0), seg.bpb - 1);
+                const tick = seg.start + barWithin * seg.bpb * seg.tpb + clampedBeat * seg.tpb;
+                return { tick };
+            }
+            barAccum += barsInSeg;
+        }
+
+        // If requesting a bar beyond the song, clamp to end
+        const { ticksPerBeat, beatsPerBar } = this.defaults();
+        const endTick = this._song?.length ?? bar * beatsPerBar * ticksPerBeat;
+        return { tick: endTick };
+    }
+
+    /**
+     * Get the bar number (0-based) at a specific tick.
+     */
+    getBarAtTick(tick: number): number {
+        return this.computeBarBeatAtTick(tick).bar;
+    }
+
+    /**
+     * Get the absolute tick for the start of a specific bar (0-based).
+     */
+    getBarStartTick(bar: number): number {
+        return this.findTickForBarBeat(Math.max(0, Math.floor(bar)), 0).tick;
+    }
+
+    /**
+     * Snap a tick to the start of the nearest bar.
+     */
+    snapTickToNearestBarStart(tick: number): number {
+        const { bar } = this.computeBarBeatAtTick(tick);
+        const currentBarStart = this.findTickForBarBeat(bar, 0).tick;
+        const nextBarStart = this.findTickForBarBeat(bar + 1, 0).tick;
+
+        // Calculate distance to current bar start and next bar start
+        const distanceToCurrent = Math.abs(tick - currentBarStart);
+        const distanceToNext = Math.abs(tick - nextBarStart);
+
+        // Return the closer bar start
+        return distanceToCurrent <= distanceToNext ? currentBarStart : nextBarStart;
+    }
+
+    /** Clamp an arbitrary tick to [0, song.length] if a song is loaded, or [0, +Inf) otherwise. */
+    clampTick(tick: number): number {
+        const base = Math.max(0, tick | 0);
+        if (!this._song) return base;
+        return Math.min(base, this._song.length);
+    }
+
+    /**
+     * Tick at which playback of the song ends, or 0 without a song.
+     */
+    getPlaybackEndTick(): number {
+        const song = this._song;
+        if (!song) return 0;
+        // Add 2 bars worth of trailing beats after the last note to allow notes to finish playing
+        // and provide some musical breathing room
+        const trailingBars = 2;
+        const { tpb, bpb } = this.getSignatureAtTick(song.length);
+        const trailingTicks = trailingBars * bpb * tpb;
+        return song.length + trailingTicks;
+    }
+
+    /**
+     * Ensure the song length provides at least `minBars` after `referenceTick`.
+     * Uses the local time signature at that tick to compute bar size.
+     */
+    ensureTrailingBarsAfterTick(referenceTick: number, minBars = 16) {
+        const song = this._song;
+        if (!song) return;
+        const { tpb, bpb } = this.getSignatureAtTick(referenceTick);
+        const ticksPerBar = Math.max(1, tpb * bpb);
+        const required = Math.max(0, referenceTick | 0) + Math.max(0, minBars | 0) * ticksPerBar;
+        if (song.length < required) song.length = required;
+    }
+
+    /** When each tick plays in the generated datapack; see `createGameTickSchedule`. */
+    getGameTickSchedule(): GameTickSchedule {
+        if (!this._gameTickSchedule) {
+            this._gameTickSchedule = this._song
+                ? createGameTickSchedule(this._song)
+                : { tempo: this.defaults().tempo, gameTicks: new Map() };
+        }
+        return this._gameTickSchedule;
+    }
+
+    /**
+     * Seconds between a tick's onset and the game tick the datapack plays it on, or null
+     * when the datapack would skip the note: its tick shares a game tick with a later one,
+     * or its key is outside the noteblock range.
+     */
+    getMinecraftNoteDelay(tick: number, key: number, instrument: Instrument): number | null {
+        const { tempo, gameTicks } = this.getGameTickSchedule();
+        const gameTick = gameTicks.get(tick);
+        if (gameTick === undefined) return null;
+        if (!isPlayableNoteblockKey(key, findCustomInstrument(this._song, instrument))) return null;
+        return Math.max(0, gameTick / 20 - tick / tempo);
+    }
+
+    private static buildIndexes(song: Song | null) {
+        const tickNotes = new Map<number, IndexedNote[]>();
+        const tempoChanges = new Map<number, TempoChange>();
+        const channelsById = new Map<string, NoteChannel>();
+        if (!song) return { tickNotes, tempoChanges, channelsById };
+
+        for (const channel of song.channels) {
+            if (channel.kind !== 'note') continue;
+            // ensure channel has a stable id
+            if (!(channel as any).id) (channel as any).id = generateChannelId();
+            const cid = (channel as any).id as string;
+            channelsById.set(cid, channel as NoteChannel);
+
+            for (const section of channel.sections) {
+                const base = section.startingTick;
+                for (const note of section.notes) {
+                    const absTick = base + note.tick;
+                    const arr = tickNotes.get(absTick);
+                    const item = { note, instrument: channel.instrument, channelId: cid };
+                    if (arr) arr.push(item);
+                    else tickNotes.set(absTick, [item]);
+                }
+            }
+        }
+
+        for (const channel of song.channels) {
+            if (channel.kind !== 'tempo') continue;
+            for (const t of channel.tempoChanges) {
+                tempoChanges.set(t.tick, t);
+            }
+        }
+
+        return { tickNotes, tempoChanges, channelsById };
+    }
+}
@@ -0,0 +1,974 @@
+import { DEFAULT_SONG_TRANSPORT, type Note, type SongTransport } from '../types';
+import type { AudioEngine, NoteVoice } from './audio-engine';
+import {
+    DEFAULT_METRONOME_SETTINGS,
+    getAccentPattern,
+    type AccentLevel,
+    type MetronomeSettings
+} from './metronome';
+import {
+    createSchedulerClock,
+    SchedulePlanner,
+    type PlannedTick,
+    type SchedulerConfig,
+    type SchedulerRequest,
+    type SchedulerResponse
+} from './scheduler-clock';
+import type { SongModel } from './song-model';
+
+/**
+ * Loop behavior for playback.
+ */
+export enum LoopMode {
+    Off = 'off',
+    Song = 'song',
+    Selection = 'selection',
+    Region = 'region'
+}
+
+/** Slowest and fastest transport rate, as multipliers of the song tempo. */
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 2;
+
+// Scrubbing sounds at most one burst of notes per interval, with a cap on its voices, so
+// fast drags stay audible without every crossed note piling up
+const SCRUB_INTERVAL_MS = 40;
+const SCRUB_MAX_VOICES = 8;
+// A scrub step after this long without one starts a new gesture
+const SCRUB_GESTURE_GAP_MS = 250;
+
+/**
+ * A note as the datapack plays it: note blocks and /playsound have no velocity or fine
+ * pitch, so every note sounds at full volume on its semitone.
+ */
+function toMinecraftNote(note: Note): Note {
+    return { ...note, velocity: 100, pitch: 0 };
+}
+
+/**
+ * Playback cursor, loop and selection state, and the clocks that move them: a UI clock
+ * advancing the cursor and the look-ahead scheduler clock feeding an audio engine.
+ *
+ * Its state lives in Svelte runes for the UI to follow, so it only runs inside a Svelte
+ * build. Sound is left to the engine it drives; without Workers the scheduler clock runs
+ * in-process.
+ */
+export class Transport {
+    private _isPlaying = $state(false);
+    private _currentTick = $state(0);
+    private _tempo = $state(20);
+    private _ticksPerBeat = $state(10);
+    private _beatsPerBar = $state(4);
+    private _metronomeEnabled = $state(false);
+    private _metronome = $state.raw<MetronomeSettings>(DEFAULT_METRONOME_SETTINGS);
+    private _minecraftTiming = $state(false);
+    private _playbackRate = $state(1);
+    private _preservePitch = $state(false);
+    private _countingIn = $state(false);
+    private _countInEndsAt: number | null = null; // performance.now() time the count-in ends
+    private _returnTick: number | null = null; // cursor to go back to after a pre-roll start
+
+    // Looping and selection state
+    private _loopMode = $state<LoopMode>(LoopMode.Off);
+    private _selectionStart = $state<number | null>(null);
+    private _selectionEnd = $state<number | null>(null);
+    private _loopStart = $state<number | null>(null);
+    private _loopEnd = $state<number | null>(null);
+    private _loopRepeats = $state<number | null>(null); // null loops forever
+    private _loopWraps = 0; // times the UI clock went back to the loop start this run
+
+    // Scrubbing: tick of the last audible scrub step and when it sounded (performance.now())
+    private _scrubTick: number | null = null;
+    private _scrubAt = 0;
+
+    // UI tick updater (no audio emission)
+    private interval: ReturnType<typeof setTimeout> | null = null;
+    private _nextTickAt = 0;
+
+    // Look-ahead clock planning which ticks to play; a Worker when available
+    private _schedulerClock: { post: (request: SchedulerRequest) => void } | null = null;
+    private _schedulerEpoch = 0; // bumped on every restart so stale batches are dropped
+    private _muteTickAudio = false; // suppress audio inside nextTick() when UI-updating
+
+    constructor(
+        private readonly model: SongModel,
+        private readonly engine: AudioEngine
+    ) {}
+
+    get isPlaying() {
+        return this._isPlaying;
+    }
+
+    get currentTick() {
+        return this._currentTick;
+    }
+
+    get tempo() {
+        return this._tempo;
+    }
+
+    get ticksPerBeat() {
+        return this._ticksPerBeat;
+    }
+
+    get beatsPerBar() {
+        return this._beatsPerBar;
+    }
+
+    get metronomeEnabled() {
+        return this._metronomeEnabled;
+    }
+
+    /** Subdivision, accents and count-in behavior of the metronome. */
+    get metronomeSettings() {
+        return this._metronome;
+    }
+
+    /** Transport speed as a multiplier of the song tempo; the tempo channel is not changed. */
+    get playbackRate() {
+        return this._playbackRate;
+    }
+
+    /** Whether samples keep their pitch when the playback rate is not 1. */
+    get preservePitch() {
+        return this._preservePitch;
+    }
+
+    /** Whether playback is waiting for its count-in to finish. */
+    get isCountingIn() {
+        return this._countingIn;
+    }
+
+    /** Whether playback emulates the timing and note range of the exported datapack. */
+    get minecraftTiming() {
+        return this._minecraftTiming;
+    }
+
+    /**
+     * Current bar index (0-based), derived from current tick and tempo changes.
+     */
+    get currentBar(): number {
+        return this.model.computeBarBeatAtTick(this._currentTick).bar;
+    }
+
+    /**
+     * Current beat index within the bar (0-based), derived from current tick.
+     */
+    get currentBeat(): number {
+        return this.model.computeBarBeatAtTick(this._currentTick).beat;
+    }
+
+    /** Current loop mode. */
+    get loopMode() {
+        return this._loopMode;
+    }
+
+    /** Selection start tick (inclusive) or null. */
+    get selectionStart() {
+        return this._selectionStart;
+    }
+
+    /** Selection end tick (exclusive) or null. */
+    get selectionEnd() {
+        return this._selectionEnd;
+    }
+
+    /** Loop region start tick (inclusive) or null. Independent of the selection. */
+    get loopStart() {
+        return this._loopStart;
+    }
+
+    /** Loop region end tick (exclusive) or null. */
+    get loopEnd() {
+        return this._loopEnd;
+    }
+
+    /** How many times the loop region plays before playback moves on; null loops forever. */
+    get loopRepeats() {
+        return this._loopRepeats;
+    }
+
+    // Count-in and pre-roll of the loaded song
+    private get settings(): SongTransport {
+        return this.model.song?.transport ?? DEFAULT_SONG_TRANSPORT;
+    }
+
+    /**
+     * The selection clamped to the song, or null when nothing is selected.
+     */
+    getSelectionRange(): { start: number; end: number } | null {
+        if (!this.hasValidSelection()) return null;
+        return {
+            start: this._selectionStart as number,
+            end: Math.min(this._selectionEnd as number, this.model.song?.length ?? 0)
+        };
+    }
+
+    /**
+     * Change loop mode. Switching to region looping without a region creates one from the
+     * selection, or four bars from the current bar.
+     */
+    setLoopMode(mode: LoopMode) {
+        if (mode === LoopMode.Region && !this.hasLoopRegion()) {
+            if (this.hasValidSelection()) {
+                this.setLoopRegion(this._selectionStart as number, this._selectionEnd as number);
+            } else {
+                const bar = this.currentBar;
+                this.setLoopRegion(
+                    this.model.getBarStartTick(bar),
+                    this.model.getBarStartTick(bar + 4)
+                );
+            }
+        }
+        this._loopMode = mode;
+        this.resyncSchedulerOnStateChange();
+    }
+
+    /**
+     * Place the loop region. Both locators snap to the nearest bar start, and the region
+     * is always at least one bar long.
+     */
+    setLoopRegion(start: number, end: number) {
+        const model = this.model;
+        const from = model.snapTickToNearestBarStart(Math.max(0, Math.min(start, end)));
+        let to = model.snapTickToNearestBarStart(Math.max(0, start, end));
+        if (to <= from) to = model.getBarStartTick(model.getBarAtTick(from) + 1);
+        if (from === this._loopStart && to === this._loopEnd) return;
+        this._loopStart = from;
+        this._loopEnd = to;
+        this.resyncSchedulerOnStateChange();
+    }
+
+    /** Remove the loop region, turning region looping off. */
+    clearLoopRegion() {
+        this._loopStart = null;
+        this._loopEnd = null;
+        if (this._loopMode === LoopMode.Region) this._loopMode = LoopMode.Off;
+        this.resyncSchedulerOnStateChange();
+    }
+
+    /**
+     * Set how many times the loop region plays before playback continues past its end.
+     * Pass null to loop forever.
+     */
+    setLoopRepeats(count: number | null) {
+        this._loopRepeats = count === null ? null : Math.max(1, Math.round(count));
+        this.resyncSchedulerOnStateChange();
+    }
+
+    /** Enable or disable the metronome clicks during playback. */
+    setMetronomeEnabled(on: boolean) {
+        this._metronomeEnabled = !!on;
+        this.resyncSchedulerOnStateChange();
+    }
+
+    /**
+     * Change how the metronome clicks. Settings are editor preferences rather than part of
+     * the song, so they are kept across song loads and resets.
+     */
+    setMetronomeSettings(settings: MetronomeSettings) {
+        this._metronome = settings;
+        this.resyncSchedulerOnStateChange();
+    }
+
+    /**
+     * Set the transport rate, clamped to MIN_PLAYBACK_RATE..MAX_PLAYBACK_RATE. Only playback
+     * speeds up or slows down; the song tempo and offline renders are unaffected.
+     */
+    setPlaybackRate(rate: number) {
+        if (!Number.isFinite(rate)) return;
+        this._playbackRate = Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, rate));
+        this.resyncSchedulerOnStateChange();
+    }
+
+    /**
+     * Keep notes at their written pitch when the playback rate changes. When off, samples
+     * are resampled along with the tempo, like a tape running faster or slower.
+     */
+    setPreservePitch(on: boolean) {
+        this._preservePitch = !!on;
+        this.resyncSchedulerOnStateChange();
+    }
+
+    /**
+     * Enable or disable Minecraft timing. While on, the song plays like the generated
+     * datapack: at its single tempo, with notes snapped to the 20 Hz game tick grid, and
+     * without notes outside the noteblock range.
+     */
+    setMinecraftTiming(on: boolean) {
+        this._minecraftTiming = !!on;
+        this.resyncSchedulerOnStateChange();
+    }
+
+    /**
+     * Set the current tempo, which is also used where the song has no tempo change.
+     * Does not touch the song; see `Player.setTempo` for that.
+     */
+    setTempo(tempo: number) {
+        if (tempo > 0) this._tempo = tempo;
+    }
+
+    /**
+     * Set selection start tick (inclusive). Clamps to valid range.
+     */
+    setSelectionStart(tick: number) {
+        const clamped = this.model.clampTick(tick);
+        this._selectionStart = clamped;
+        // Ensure start <= end when both set
+        if (this._selectionEnd !== null && this._selectionEnd < clamped) {
+            this._selectionEnd = clamped;
+        }
+        this.resyncSchedulerOnStateChange();
+    }
+
+    /**
+     * Set selection end tick (exclusive). Clamps to valid range.
+     */
+    setSelectionEnd(tick: number) {
+        const clamped = this.model.clampTick(tick);
+        this._selectionEnd = clamped;
+        // Ensure start <= end when both set
+        if (this._selectionStart !== null && this._selectionStart > clamped) {
+            this._selectionStart = clamped;
+        }
+        this.resyncSchedulerOnStateChange();
+    }
+
+    /**
+     * Jump to a specific bar (0-based). Sets the tick to the start of that bar.
+     */
+    setCurrentBar(bar: number) {
+        const { tick } = this.model.findTickForBarBeat(Math.max(0, bar | 0), 0);
+        this._currentTick = this.model.clampTick(tick);
+        this.resyncSchedulerOnSeek();
+    }
+
+    /**
+     * Set the current beat (0-based) within the current bar.
+     */
+    setCurrentBeat(beat: number) {
+        const bar = this.currentBar;
+        const { tick } = this.model.findTickForBarBeat(bar, Math.max(0, beat | 0));
+        this._currentTick = this.model.clampTick(tick);
+        this.resyncSchedulerOnSeek();
+    }
+
+    /**
+     * Jump directly to a given bar and beat (both 0-based).
+     */
+    setBarBeat(bar: number, beat: number) {
+        const { tick } = this.model.findTickForBarBeat(Math.max(0, bar | 0), Math.max(0, beat | 0));
+        this._currentTick = this.model.clampTick(tick);
+        this.resyncSchedulerOnSeek();
+    }
+
+    /**
+     * Directly set the current tick without clamping to song length.
+     * Keeps a lower bound of 0 for sanity, but allows "free" cursor beyond the song.
+     */
+    setCurrentTick(tick: number) {
+        this._currentTick = Math.max(0, tick | 0);
+        this.resyncSchedulerOnSeek();
+    }
+
+    /**
+     * Move the cursor like `setCurrentTick` and, while stopped, play the notes the cursor
+     * crossed since the last audible step. Steps are rate-limited; when a step crossed
+     * more notes than a burst may play, the ones closest to the cursor are kept.
+     */
+    scrubTo(tick: number) {
+        this.setCurrentTick(tick);
+        if (this._isPlaying) return;
+
+        const to = this._currentTick;
+        const now = performance.now();
+        if (this._scrubTick !== null && now - this._scrubAt < SCRUB_INTERVAL_MS) return;
+        const fresh = this._scrubTick === null || now - this._scrubAt > SCRUB_GESTURE_GAP_MS;
+        const from = fresh ? null : (this._scrubTick as number);
+        if (from === to) return;
+
+        // Walk from the cursor back to (but not including) the tick of the last step
+        const step = from === null || from <= to ? -1 : 1;
+        const count = from === null ? 1 : Math.abs(to - from);
+        const voices: NoteVoice[] = [];
+        for (let i = 0; i < count && voices.length < SCRUB_MAX_VOICES; i++) {
+            const t = to + i * step;
+            for (const { note, instrument, channelId } of this.model.getNotesAtTick(t) ?? []) {
+                const channel = this.model.getChannel(channelId);
+                if (!channel || channel.isMuted) continue;
+                const id = `${t}:${note.key}:${instrument}`;
+                voices.push({ id, tick: t, note, instrument, channel, rate: 1 });
+                if (voices.length >= SCRUB_MAX_VOICES) break;
+            }
+        }
+
+        this._scrubTick = to;
+        this._scrubAt = now;
+        for (const voice of voices) {
+            try {
+                this.engine.playNote(voice);
+            } catch {}
+        }
+    }
+
+    /**
+     * Clear any active selection.
+     */
+    clearSelection() {
+        this._selectionStart = null;
+        this._selectionEnd = null;
+        this.resyncSchedulerOnStateChange();
+    }
+
+    /**
+     * Take over a song the model just loaded: rewind, adopt its tempo, keep the selection
+     * inside it and drop the loop region of the previous song.
+     */
+    songLoaded() {
+        const song = this.model.song;
+        this._currentTick = 0;
+        this._tempo = song?.tempo ?? this._tempo;
+
+        // Normalize selection to the bounds of the new song
+        if (this._selectionStart !== null)
+            this._selectionStart = this.model.clampTick(this._selectionStart);
+        if (this._selectionEnd !== null)
+            this._selectionEnd = this.model.clampTick(this._selectionEnd);
+        if (
+            this._selectionStart !== null &&
+            this._selectionEnd !== null &&
+            this._selectionEnd < this._selectionStart
+        ) {
+            // Keep consistent invariant start <= end
+            this._selectionEnd = this._selectionStart;
+        }
+        // The loop region belongs to the previous song
+        this._loopStart = null;
+        this._loopEnd = null;
+        if (this._loopMode === LoopMode.Region) this._loopMode = LoopMode.Off;
+        this.indexChanged();
+    }
+
+    /**
+     * Pick up an edit of the song in place, after the model was reindexed.
+     */
+    songEdited() {
+        // Keep selection bounds within new song length if applicable
+        if (this._selectionStart !== null)
+            this._selectionStart = this.model.clampTick(this._selectionStart);
+        if (this._selectionEnd !== null)
+            this._selectionEnd = this.model.clampTick(this._selectionEnd);
+        this.indexChanged();
+    }
+
+    nextTick() {
+        const song = this.model.song;
+        if (!song) return;
+
+        // Handle loop boundaries before emitting notes
+        if (this._loopMode === LoopMode.Selection && this.hasValidSelection()) {
+            const start = this._selectionStart as number;
+            const end = Math.min(this._selectionEnd as number, song.length);
+            // If we've just left the selection on the right bound, wrap to start
+            if (this._currentTick >= end) {
+                this._currentTick = start;
+            } else if (this._currentTick < start) {
+                // Before selection: do not force-jump; stop at song end if reached
+                if (this.atSongEnd(this._currentTick)) return this.stopInternal();
+            }
+        } else if (this._loopMode === LoopMode.Song) {
+            if (this.atSongEnd(this._currentTick)) {
+                this._currentTick = 0;
+            }
+        } else if (this.shouldWrapLoopRegion(this._currentTick, this._loopWraps)) {
+            this._currentTick = this._loopStart as number;
+            this._loopWraps++;
+        } else {
+            if (this.atSongEnd(this._currentTick)) return this.stopInternal();
+        }
+        if (!this._muteTickAudio) {
+            const notes = this.model.getNotesAtTick(this._currentTick);
+            if (notes) {
+                for (const { note, instrument, channelId } of notes) {
+                    const channel = this.model.getChannel(channelId);
+                    if (!channel || channel.isMuted) continue;
+                    const id = `${this._currentTick}:${note.key}:${instrument}`;
+                    try {
+                        this.engine.playNote({
+                            id,
+                            tick: this._currentTick,
+                            note,
+                            instrument,
+                            channel,
+                            rate: 1
+                        });
+                    } catch {}
+                }
+            }
+        }
+        // Update tempo from the latest active tempo change (not just changes at this exact tick)
+        const latestTempo = this.model.getTempoAtTick(this._currentTick);
+        if (latestTempo !== this._tempo) {
+            this._tempo = latestTempo;
+        }
+
+        // Also check for time signature changes at this exact tick
+        const change = this.model.getTempoChangeAtTick(this._currentTick);
+        if (change) {
+            this._ticksPerBeat = change.ticksPerBeat;
+            this._beatsPerBar = change.beatsPerBar;
+        }
+        // Metronome: click on each beat boundary with the accent of the beat's pattern
+        if (this._metronomeEnabled && !this._metronome.countInOnly && !this._muteTickAudio) {
+            const seg = this.model.getSegmentAtTick(this._currentTick);
+            if (seg) {
+                const ticksInto = this._currentTick - seg.start;
+                if (ticksInto >= 0 && seg.tpb > 0 && ticksInto % seg.tpb === 0) {
+                    const beatsInto = Math.floor(ticksInto / seg.tpb);
+                    const beatInBar = beatsInto % seg.bpb;
+                    const accent = getAccentPattern(this._metronome, seg.bpb)[beatInBar];
+                    if (accent !== 'off') this.engine.playClick(accent);
+                }
+            }
+        }
+        this._currentTick++;
+    }
+
+    /**
+     * Start playing the loaded song from the current tick.
+     * Throws if no song is loaded.
+     *
+     */
+    async resume() {
+        if (!this.model.song) throw new Error('No song loaded');
+
+        const starting = !this._isPlaying;
+        this._isPlaying = true;
+
+        // Do not force cursor into selection on resume; only ensure song loop wraps
+        if (this._loopMode === LoopMode.Song) {
+            if (this.atSongEnd(this._currentTick)) this._currentTick = 0;
+        }
+
+        if (starting) this._loopWraps = 0;
+
+        const { countInBars, preRollBars } = this.settings;
+        if (starting && preRollBars > 0) {
+            // Start a few bars early; the cursor comes back here when playback stops
+            const { tpb, bpb } = this.model.getSignatureAtTick(this._currentTick);
+            this._returnTick = this._currentTick;
+            this._currentTick = Math.max(0, this._currentTick - preRollBars * tpb * bpb);
+        }
+
+        // Start UI updater (tick counter only, no audio emission)
+        this._muteTickAudio = true;
+        if (!this.interval) this._nextTickAt = performance.now();
+        if (starting && countInBars > 0) {
+            this._countInEndsAt = this._nextTickAt + this.getCountInSeconds(countInBars) * 1000;
+            this._nextTickAt = this._countInEndsAt;
+            this._countingIn = true;
+        }
+        this.scheduleUi();
+
+        // Prepare the audio engine and start scheduling
+        await this.engine.prepare();
+        this.startAudioScheduler();
+    }
+
+    /**
+     * Pause playback.
+     * Throws if the player is not running.
+     */
+    async pause() {
+        this._isPlaying = false;
+
+        // Stop UI updater
+        if (this.interval) {
+            clearTimeout(this.interval);
+            this.interval = null;
+        }
+
+        // Stop audio scheduler (already scheduled notes may still play)
+        this.stopAudioScheduler();
+        // Cancel any scheduled audio from now on
+        this.engine.cancelScheduled();
+        this.finishPlaybackRun();
+    }
+
+    /**
+     * Plan a stretch of the song for rendering: every tick from `start` up to `end` that
+     * has notes, timed from 0 by the song's own tempo map at rate 1, without loops, the
+     * metronome or the Minecraft timing override. `duration` is when the last tick ends.
+     */
+    planRange(start: number, end: number): { ticks: PlannedTick[]; duration: number } {
+        const planner = new SchedulePlanner();
+        planner.setIndex(this.model.noteTicks);
+        planner.start(
+            {
+                ...this.getSchedulerConfig(),
+                baseTempo: this.model.getTempoAtTick(0),
+                tempoOverride: null,
+                rate: 1,
+                endTick: end,
+                loopSong: false,
+                selection: null,
+                region: null,
+                metronome: null
+            },
+            { tick: start, time: 0, loopWraps: 0 }
+        );
+        const { ticks } = planner.plan(Number.POSITIVE_INFINITY);
+        return { ticks, duration: planner.cursor.time };
+    }
+
+    /**
+     * Play a planned tick on an engine: its notes, and the metronome clicks of a beat that
+     * starts on it. Muted channels are skipped unless `channelIds` lists the channels to play.
+     * `songTiming` plays the notes as written even while Minecraft timing is on.
+     */
+    playPlannedTick(
+        { tick, when, hasNotes, click }: PlannedTick,
+        engine: AudioEngine = this.engine,
+        options: { rate?: number; channelIds?: ReadonlySet<string>; songTiming?: boolean } = {}
+    ) {
+        const rate = options.rate ?? this._playbackRate;
+        const minecraftTiming = this._minecraftTiming && !options.songTiming;
+        const only = options.channelIds ?? null;
+        const notes = hasNotes ? (this.model.getNotesAtTick(tick) ?? []) : [];
+        for (const { note, instrument, channelId } of notes) {
+            const channel = this.model.getChannel(channelId);
+            if (!channel) continue;
+            if (only ? !only.has(channelId) : channel.isMuted) continue;
+
+            const voice: NoteVoice = {
+                id: `${tick}:${note.key}:${instrument}`,
+                tick,
+                note,
+                instrument,
+                channel,
+                rate: this._preservePitch ? 1 : rate
+            };
+            if (minecraftTiming) {
+                const delay = this.model.getMinecraftNoteDelay(tick, note.key, instrument);
+                if (delay === null) continue;
+                engine.playNote({ ...voice, note: toMinecraftNote(note) }, when + delay / rate);
+                continue;
+            }
+            engine.playNote(voice, when);
+        }
+
+        if (click) {
+            const { tpb } = this.model.getSignatureAtTick(tick);
+            const secPerBeat = tpb / (this.getPlaybackTempoAtTick(tick) * rate);
+            this.playBeatClicks(engine, click, when, secPerBeat, tick);
+        }
+    }
+
+    /**
+     * Stop playback and return every setting to its initial value.
+     */
+    reset() {
+        // Stop playback if currently playing
+        if (this._isPlaying) {
+            this.pause();
+        }
+
+        // Reset playback state
+        this._currentTick = 0;
+        this._tempo = 20;
+        this._ticksPerBeat = 10;
+        this._beatsPerBar = 4;
+        this._metronomeEnabled = false;
+        this._minecraftTiming = false;
+        this._playbackRate = 1;
+        this._preservePitch = false;
+        this._countingIn = false;
+        this._countInEndsAt = null;
+        this._returnTick = null;
+
+        // Reset loop and selection state
+        this._loopMode = LoopMode.Off;
+        this._selectionStart = null;
+        this._selectionEnd = null;
+        this._loopStart = null;
+        this._loopEnd = null;
+        this._loopRepeats = null;
+        this._loopWraps = 0;
+        this._scrubTick = null;
+
+        // Reset UI timing
+        this._nextTickAt = 0;
+
+        // Reset scheduler state
+        this.stopAudioScheduler();
+        this._muteTickAudio = false;
+
+        // Cancel any scheduled audio
+        this.engine.cancelScheduled();
+    }
+
+    private hasLoopRegion(): boolean {
+        return (
+            this._loopStart !== null && this._loopEnd !== null && this._loopEnd > this._loopStart
+        );
+    }
+
+    /**
+     * Whether playback reaching `tick` goes back to the loop start: in region loop mode, at
+     * the loop end, while repeats are left after `wraps` trips around the region.
+     */
+    private shouldWrapLoopRegion(tick: number, wraps: number): boolean {
+        if (this._loopMode !== LoopMode.Region || !this.hasLoopRegion()) return false;
+        if (tick !== this._loopEnd) return false;
+        return this._loopRepeats === null || wraps < this._loopRepeats - 1;
+    }
+
+    private hasValidSelection(): boolean {
+        return (
+            this._selectionStart !== null &&
+            this._selectionEnd !== null &&
+            this._selectionEnd > this._selectionStart
+        );
+    }
+
+    private atSongEnd(currentTick: number): boolean {
+        if (!this.model.song) return false;
+        return currentTick >= this.model.getPlaybackEndTick();
+    }
+
+    /**
+     * Tempo used to advance playback at a tick. Minecraft timing ignores the tempo map,
+     * since the datapack plays the whole song at a single tempo.
+     */
+    private getPlaybackTempoAtTick(tick: number): number {
+        if (this._minecraftTiming) return this.model.getGameTickSchedule().tempo;
+        return this.model.getTempoAtTick(tick);
+    }
+
+    // Hand the scheduler clock the new note index and replan from the cursor
+    private indexChanged() {
+        this._schedulerClock?.post({ type: 'index', index: this.model.noteTicks });
+        this.resyncSchedulerOnStateChange();
+    }
+
+    private scheduleUi() {
+        if (!this._isPlaying) return;
+        const delay = Math.max(0, this._nextTickAt - performance.now());
+        this.interval = setTimeout(() => {
+            if (this._countingIn) {
+                this._countingIn = false;
+                this._countInEndsAt = null;
+            }
+            this.nextTick(); // UI-only advance (audio suppressed)
+            if (!this._isPlaying) return;
+            const tempo = this._minecraftTiming
+                ? this.model.getGameTickSchedule().tempo
+                : this._tempo;
+            this._nextTickAt += 1000 / (tempo * this._playbackRate);
+            this.scheduleUi();
+        }, delay);
+    }
+
+    private startAudioScheduler() {
+        if (this.engine.currentTime === null) return;
+        if (!this._isPlaying) return;
+
+        // Initialize scheduling cursor if starting fresh
+        this.resetSchedulerCursor();
+    }
+
+    private stopAudioScheduler() {
+        this._schedulerEpoch++;
+        this._schedulerClock?.post({ type: 'stop' });
+    }
+
+    /**
+     * Start the scheduler clock on first use: in a Worker, so main-thread work cannot delay
+     * it, or in-process where Workers are unavailable.
+     */
+    private getSchedulerClock() {
+        if (this._schedulerClock) return this._schedulerClock;
+        const receive = (response: SchedulerResponse) => this.handleSchedulerResponse(response);
+        try {
+            const worker = new Worker(new URL('./scheduler-clock.worker.ts', import.meta.url), {
+                type: 'module'
+            });
+            worker.onmessage = (event: MessageEvent<SchedulerResponse>) => receive(event.data);
+            this._schedulerClock = { post: (request) => worker.postMessage(request) };
+        } catch {
+            const handle = createSchedulerClock(receive);
+            this._schedulerClock = { post: handle };
+        }
+        this._schedulerClock.post({ type: 'index', index: this.model.noteTicks });
+        return this._schedulerClock;
+    }
+
+    /**
+     * Snapshot of everything the scheduler clock needs to walk the song from the cursor.
+     */
+    private getSchedulerConfig(): SchedulerConfig {
+        const region =
+            this._loopMode === LoopMode.Region && this.hasLoopRegion()
+                ? {
+                      start: this._loopStart as number,
+                      end: this._loopEnd as number,
+                      repeats: this._loopRepeats
+                  }
+                : null;
+        return {
+            tempoChanges: this.model.tempoChanges.map(({ tick, tempo }) => ({ tick, tempo })),
+            baseTempo: this._tempo,
+            tempoOverride: this._minecraftTiming ? this.model.getGameTickSchedule().tempo : null,
+            rate: this._playbackRate,
+            endTick: this.model.getPlaybackEndTick(),
+            loopSong: this._loopMode === LoopMode.Song,
+            selection: this._loopMode === LoopMode.Selection ? this.getSelectionRange() : null,
+            region,
+            metronome:
+                this._metronomeEnabled && !this._metronome.countInOnly
+                    ? this.model.getSegments().map((seg) => ({
+                          ...seg,
+                          accents: getAccentPattern(this._metronome, seg.bpb)
+                      }))
+                    : null
+        };
+    }
+
+    private handleSchedulerResponse(response: SchedulerResponse) {
+        if (response.epoch !== this._schedulerEpoch) return;
+        const now = this.engine.currentTime;
+        if (now === null || !this._isPlaying || !this.model.song) return;
+
+        if (response.type === 'end') {
+            // Stop playback when reaching the end in non-loop mode
+            this.stopInternal();
+            return;
+        }
+
+        const lag = now - response.sentAt;
+        if (lag > 0) this._schedulerClock?.post({ type: 'lag', seconds: lag });
+        for (const planned of response.ticks) this.playPlannedTick(planned);
+    }
+
+    private resyncSchedulerOnSeek() {
+        this._nextTickAt = performance.now();
+        // Seeking skips the rest of a count-in, drops the pre-roll return point and starts
+        // counting loop repeats again
+        this._returnTick = null;
+        this._loopWraps = 0;
+        if (this._countingIn) {
+            this._countingIn = false;
+            this._countInEndsAt = null;
+            if (this.interval) {
+                clearTimeout(this.interval);
+                this.interval = null;
+                this.scheduleUi();
+            }
+        }
+        if (!this._isPlaying) return;
+        if (this.engine.currentTime === null) return;
+        this.engine.cancelScheduled();
+        this.resetSchedulerCursor();
+    }
+
+    private resyncSchedulerOnStateChange() {
+        if (!this._isPlaying) return;
+        if (this.engine.currentTime === null) return;
+        this.engine.cancelScheduled();
+        this.resetSchedulerCursor();
+    }
+
+    /**
+     * (Re)start the scheduler clock at the current tick. During a count-in the first tick
+     * waits for the count-in to end, and the clicks still ahead are scheduled before it.
+     */
+    private resetSchedulerCursor() {
+        const now = this.engine.currentTime;
+        if (now === null) return;
+        let startTime = now;
+        const remaining =
+            this._countInEndsAt === null ? 0 : (this._countInEndsAt - performance.now()) / 1000;
+        if (remaining > 0) {
+            startTime += remaining;
+            this.scheduleCountIn(now, startTime);
+        }
+
+        this.getSchedulerClock().post({
+            type: 'start',
+            epoch: ++this._schedulerEpoch,
+            config: this.getSchedulerConfig(),
+            cursor: { tick: this._currentTick, time: startTime, loopWraps: this._loopWraps },
+            clock: {
+                audioTime: now,
+                wallTime: performance.timeOrigin + performance.now()
+            }
+        });
+    }
+
+    private scheduleCountIn(now: number, startTime: number) {
+        const { bpb } = this.model.getSignatureAtTick(this._currentTick);
+        if (bpb <= 0) return;
+        const accents = getAccentPattern(this._metronome, bpb);
+        const beats = this.settings.countInBars * bpb;
+        const secPerBeat = this.getCountInSeconds(1) / bpb;
+        for (let beat = 0; beat < beats; beat++) {
+            const when = startTime - (beats - beat) * secPerBeat;
+            if (when < now) continue;
+            const accent = accents[beat % bpb];
+            this.playBeatClicks(this.engine, accent, when, secPerBeat, this._currentTick);
+        }
+    }
+
+    /**
+     * Schedule the clicks of one beat: the beat itself unless its accent is off, then
+     * evenly spaced subdivision clicks until the next beat.
+     */
+    private playBeatClicks(
+        engine: AudioEngine,
+        accent: AccentLevel,
+        when: number,
+        secPerBeat: number,
+        tick: number
+    ) {
+        if (accent !== 'off') engine.playClick(accent, when, tick);
+        const { subdivision } = this._metronome;
+        if (!Number.isFinite(secPerBeat) || secPerBeat <= 0) return;
+        for (let step = 1; step < subdivision; step++) {
+            engine.playClick('sub', when + (step * secPerBeat) / subdivision, tick);
+        }
+    }
+
+    /**
+     * Length of a count-in in seconds, in the time signature and tempo at the cursor.
+     */
+    private getCountInSeconds(bars: number): number {
+        const { tpb, bpb } = this.model.getSignatureAtTick(this._currentTick);
+        const tempo = this.getPlaybackTempoAtTick(this._currentTick);
+        if (!(tempo > 0)) return 0;
+        return (bars * bpb * tpb) / (tempo * this._playbackRate);
+    }
+
+    /**
+     * Clear count-in state once playback stops and move the cursor back to the point
+     * a pre-roll started from.
+     */
+    private finishPlaybackRun() {
+        this._countingIn = false;
+        this._countInEndsAt = null;
+        if (this._returnTick !== null) {
+            this._currentTick = this._returnTick;
+            this._returnTick = null;
+        }
+    }
+
+    private stopInternal() {
+        this._isPlaying = false;
+        if (this.interval) {
+            clearTimeout(this.interval);
+            this.interval = null;
+        }
+        this.stopAudioScheduler();
+        this._muteTickAudio = false;
+        this.finishPlaybackRun();
+    }
+}
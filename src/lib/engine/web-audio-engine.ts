@@ -0,0 +1,507 @@
+import { browser } from '$app/environment';
+import { findCustomInstrument, isCustomInstrument } from '../custom-instruments';
+import { getResourcePackSound, type ResourcePack } from '../resource-pack';
+import { loadCustomSample } from '../sample-store';
+import {
+    ALL_INSTRUMENTS,
+    BUILT_IN_SAMPLE_KEY,
+    DEFAULT_SONG_MIXING,
+    Instrument,
+    type CustomInstrument,
+    type Note,
+    type NoteChannel,
+    type Song,
+    type SongMixing
+} from '../types';
+import type { AudioEngine, NoteVoice } from './audio-engine';
+import {
+    applySongMixing,
+    createOutputChain,
+    createReverbImpulse,
+    disposeChannelStrip,
+    getChannelStrip,
+    replaceReverbImpulse,
+    startAudioSource,
+    startNoteVoice,
+    volumeToGain,
+    type AudioOutputChain,
+    type InstrumentSample
+} from './audio-graph';
+import {
+    DEFAULT_METRONOME_SETTINGS,
+    getClickGain,
+    METRONOME_SOUNDS,
+    type ClickLevel,
+    type MetronomeSettings,
+    type MetronomeSound
+} from './metronome';
+import {
+    emitNotePlayed,
+    getBundledSampleUrl,
+    playHtmlMetronome,
+    playWithHtmlAudio
+} from './html-audio';
+
+type ScheduledAudioEvent = {
+    type: 'audio';
+    node: AudioBufferSourceNode;
+    when: number;
+    tick: number;
+};
+
+type ScheduledHtmlEvent = {
+    type: 'html';
+    timeout: ReturnType<typeof setTimeout>;
+    when: number;
+    tick: number;
+};
+
+type ScheduledEvent = ScheduledAudioEvent | ScheduledHtmlEvent;
+
+/**
+ * Live playback through an AudioContext: decoded instrument samples, the mixer graph and
+ * sample-accurate scheduling. Voices fall back to HTML Audio until their sample is decoded.
+ */
+export class WebAudioEngine implements AudioEngine {
+    private _audioCtx: AudioContext | null = null;
+    private _buffers: Map<Instrument, AudioBuffer> = new Map();
+    // Sample key each custom instrument buffer was decoded from, to detect replaced samples
+    private _customBufferSample: Map<Instrument, string> = new Map();
+    // Bumped when the built-in samples change so in-flight decodes are discarded
+    private _bufferGeneration = 0;
+    private _metronomeBuffers: Map<MetronomeSound, AudioBuffer> = new Map();
+    private _metronome: MetronomeSettings = DEFAULT_METRONOME_SETTINGS;
+    private _output: AudioOutputChain | null = null;
+    // Reverb shape the live impulse was built with
+    private _impulseShape: { size: number; decay: number } | null = null;
+    private _scheduled: ScheduledEvent[] = [];
+    private _meterScratch: Float32Array<ArrayBuffer> | null = null;
+
+    /**
+     * @param song Song whose instruments and mixing settings are played
+     * @param resourcePack Pack overriding the built-in samples, if any
+     */
+    constructor(
+        private readonly song: () => Song | null,
+        private resourcePack: ResourcePack | null = null
+    ) {}
+
+    get audioCtx() {
+        return this._audioCtx;
+    }
+
+    get outputChain() {
+        return this._output;
+    }
+
+    get currentTime() {
+        return this._audioCtx?.currentTime ?? null;
+    }
+
+    private get mixing(): SongMixing {
+        return this.song()?.mixing ?? DEFAULT_SONG_MIXING;
+    }
+
+    /**
+     * Decoded sample for an instrument, or null while it is not loaded yet. Custom
+     * instrument buffers are only returned while they match the song's current sample.
+     */
+    getSample(instrument: Instrument): InstrumentSample | null {
+        const buffer = this._buffers.get(instrument);
+        if (!buffer) return null;
+        if (!isCustomInstrument(instrument)) return { buffer, baseKey: BUILT_IN_SAMPLE_KEY };
+        const custom = findCustomInstrument(this.song(), instrument);
+        if (!custom?.sample || this._customBufferSample.get(instrument) !== custom.sample) {
+            return null;
+        }
+        return { buffer, baseKey: custom.baseKey };
+    }
+
+    /**
+     * Decode the samples of the given instruments and wait for them, unlike the background
+     * loading during playback. Returns the instruments that still have no sample.
+     */
+    async loadSamples(instruments: Iterable<Instrument>): Promise<Instrument[]> {
+        const unique = [...new Set(instruments)];
+        await Promise.all(unique.map((inst) => this.loadInstrumentBuffer(inst)));
+        return unique.filter((inst) => !this.getSample(inst));
+    }
+
+    async prepare() {
+        if (!browser) return;
+        if (!this._audioCtx) {
+            this._audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)({
+                latencyHint: 'interactive'
+            }) as AudioContext;
+            const { reverbSize, reverbDecay } = this.mixing;
+            this._output = createOutputChain(
+                this._audioCtx,
+                createReverbImpulse(this._audioCtx, reverbSize, reverbDecay),
+                this.mixing
+            );
+            this._impulseShape = { size: reverbSize, decay: reverbDecay };
+        }
+        if (this._audioCtx.state === 'suspended') {
+            try {
+                await this._audioCtx.resume();
+            } catch {}
+        }
+        // Preload buffers for instruments present in the song in the background
+        const song = this.song();
+        if (song) {
+            const instruments = new Set<Instrument>();
+            for (const ch of song.channels) {
+                if (ch.kind === 'note') instruments.add(ch.instrument);
+            }
+            await Promise.all(
+                Array.from(instruments).map((inst) =>
+                    this.loadInstrumentBuffer(inst).catch(() => {})
+                )
+            );
+        }
+        // Preload metronome buffer
+        await this.loadMetronomeBuffer(this._metronome.sound);
+    }
+
+    playNote(voice: NoteVoice, when?: number) {
+        if (when === undefined) {
+            void this.playPreview(voice.note, voice.channel);
+            emitNotePlayed(voice.id, 120);
+            return;
+        }
+        this.scheduleNote(voice, when);
+    }
+
+    playClick(level: ClickLevel, when?: number, tick = 0) {
+        if (!browser) return;
+        if (when !== undefined) {
+            this.scheduleMetronome(when, level, tick);
+            return;
+        }
+        // If using Web Audio, play through the audio graph for tighter timing
+        const { sound, volume } = this._metronome;
+        const buffer = this._metronomeBuffers.get(sound);
+        if (this._audioCtx && buffer) {
+            const ctx = this._audioCtx;
+            const src = ctx.createBufferSource();
+            src.buffer = buffer;
+            const gain = ctx.createGain();
+            gain.gain.value = getClickGain(level, volume);
+            src.connect(gain).connect(this._output?.masterGain ?? ctx.destination);
+            src.start();
+            return;
+        }
+        playHtmlMetronome(level, sound, volume);
+    }
+
+    cancelScheduled() {
+        if (!this._audioCtx) return;
+        const now = this._audioCtx.currentTime - 0.002;
+        for (const e of this._scheduled) {
+            if (e.when >= now) {
+                if (e.type === 'audio') {
+                    try {
+                        e.node.stop(0);
+                    } catch {}
+                } else {
+                    clearTimeout(e.timeout);
+                }
+            }
+        }
+        this._scheduled = [];
+    }
+
+    /**
+     * Play a note right away through its channel strip, so previews follow volume and pan.
+     * Falls back to HTML Audio while Web Audio or the sample is not ready.
+     */
+    async playPreview(note: Note, channel: NoteChannel) {
+        const chain = this._output;
+        const sample = this.getSample(channel.instrument);
+        if (browser && chain?.reverbNode && sample) {
+            try {
+                startNoteVoice(
+                    chain,
+                    sample,
+                    note.key,
+                    note.velocity,
+                    note.pitch,
+                    channel,
+                    undefined,
+                    1,
+                    note.pan
+                );
+                return;
+            } catch {}
+        }
+        const velocity = note.velocity * volumeToGain(channel.volume);
+        return await this.playSound(
+            channel.instrument,
+            note.key,
+            velocity,
+            note.pitch,
+            Math.max(-100, Math.min(100, channel.pan + (note.pan ?? 0)))
+        );
+    }
+
+    /**
+     * Play an instrument sample right away, outside of any channel.
+     */
+    async playSound(instrument: Instrument, key: number, velocity: number, pitch: number, pan = 0) {
+        if (!browser) return;
+
+        // Early return to HTML Audio if Web Audio reverb not available
+        const chain = this._output;
+        if (!chain || !chain.reverbNode) {
+            return await playWithHtmlAudio(instrument, key, velocity, pitch);
+        }
+
+        try {
+            // Use Web Audio API for playback with reverb
+            const sample = this.getSample(instrument);
+            if (!sample) {
+                return await playWithHtmlAudio(instrument, key, velocity, pitch);
+            }
+
+            startNoteVoice(chain, sample, key, velocity, pitch, pan);
+        } catch {
+            // Fall through to HTML Audio fallback
+            return await playWithHtmlAudio(instrument, key, velocity, pitch);
+        }
+    }
+
+    /**
+     * Change the click sound and volume. A newly picked sound is decoded in the background
+     * if the engine is running.
+     */
+    setMetronomeSettings(settings: MetronomeSettings) {
+        this._metronome = settings;
+        if (this._audioCtx) void this.loadMetronomeBuffer(settings.sound);
+    }
+
+    /**
+     * Swap the built-in instrument samples for a resource pack's sounds, or back to the
+     * bundled ones with `null`. Samples are decoded again if the engine is running.
+     */
+    async setResourcePack(pack: ResourcePack | null) {
+        this.resourcePack = pack;
+        this._bufferGeneration++;
+        for (const inst of ALL_INSTRUMENTS) this._buffers.delete(inst);
+        if (this._audioCtx) await this.prepare();
+    }
+
+    /**
+     * Drop buffers of removed custom instruments and decode the others in the background.
+     */
+    setCustomInstruments(customInstruments: CustomInstrument[]) {
+        for (const id of this._customBufferSample.keys()) {
+            if (!customInstruments.some((custom) => custom.id === id)) {
+                this._buffers.delete(id);
+                this._customBufferSample.delete(id);
+            }
+        }
+        for (const custom of customInstruments) {
+            void this.loadInstrumentBuffer(custom.id as Instrument);
+        }
+    }
+
+    /**
+     * Bring live channel strips in line with the song: apply current volume/pan and
+     * disconnect strips of channels that no longer exist.
+     */
+    syncChannelStrips(getChannel: (channelId: string) => NoteChannel | undefined) {
+        const chain = this._output;
+        if (!chain) return;
+        for (const [id, strip] of chain.strips) {
+            const channel = getChannel(id);
+            if (channel) {
+                getChannelStrip(chain, channel);
+            } else {
+                disposeChannelStrip(strip);
+                chain.strips.delete(id);
+            }
+        }
+    }
+
+    /**
+     * Bring the live output chain in line with the song's mixing settings, rebuilding the
+     * reverb impulse only when its size or decay changed.
+     */
+    applyMixing() {
+        const chain = this._output;
+        if (!chain || !this._audioCtx) return;
+        const mixing = this.mixing;
+        applySongMixing(chain, mixing, true);
+
+        const shape = this._impulseShape;
+        if (shape && shape.size === mixing.reverbSize && shape.decay === mixing.reverbDecay) return;
+        try {
+            replaceReverbImpulse(
+                chain,
+                createReverbImpulse(this._audioCtx, mixing.reverbSize, mixing.reverbDecay)
+            );
+            this._impulseShape = { size: mixing.reverbSize, decay: mixing.reverbDecay };
+        } catch {}
+    }
+
+    /**
+     * Peak level (0..1) of a channel's output over the last analyser window.
+     * Returns 0 when the channel has not produced audio yet.
+     */
+    getChannelPeak(channelId: string): number {
+        const strip = this._output?.strips.get(channelId);
+        if (!strip) return 0;
+        const data = (this._meterScratch ??= new Float32Array(strip.meter.fftSize));
+        strip.meter.getFloatTimeDomainData(data);
+        let peak = 0;
+        for (let i = 0; i < data.length; i++) {
+            const v = Math.abs(data[i]);
+            if (v > peak) peak = v;
+        }
+        return peak;
+    }
+
+    private scheduleNote({ id, tick, note, instrument, channel, rate }: NoteVoice, when: number) {
+        if (!this._audioCtx) return;
+        const ctx = this._audioCtx;
+        const sample = this.getSample(instrument);
+        if (!sample) {
+            // Fallback to HTMLAudio if buffer not ready yet; honor scheduled timing
+            void this.loadInstrumentBuffer(instrument);
+            this.scheduleHtmlPlayback(when, tick, () => {
+                emitNotePlayed(id, 120);
+                void this.playPreview(note, channel);
+            });
+            return;
+        }
+        if (!this._output) return;
+        const src = startNoteVoice(
+            this._output,
+            sample,
+            note.key,
+            note.velocity,
+            note.pitch,
+            channel,
+            when,
+            rate,
+            note.pan
+        );
+        // Schedule a UI highlight at the same moment the audio is scheduled to play.
+        // Convert audio-time offset to ms and schedule an event.
+        try {
+            const now = ctx.currentTime;
+            const delayMs = Math.max(0, (when - now) * 1000);
+            setTimeout(() => emitNotePlayed(id, 120), delayMs);
+        } catch {
+            // best-effort: if something goes wrong, emit immediately
+            try {
+                emitNotePlayed(id, 120);
+            } catch {}
+        }
+        this.trackScheduledAudio(src, when, tick);
+    }
+
+    private scheduleMetronome(when: number, level: ClickLevel, tick: number) {
+        const { sound, volume } = this._metronome;
+        const buffer = this._metronomeBuffers.get(sound);
+        if (!this._audioCtx || !buffer || !this._output) return;
+        const src = this._audioCtx.createBufferSource();
+        src.buffer = buffer;
+        // Clicks stay dry so reverb does not blur their timing
+        const gain = this._audioCtx.createGain();
+        gain.gain.value = getClickGain(level, volume);
+        src.connect(gain).connect(this._output.masterGain);
+        startAudioSource(src, when);
+        this.trackScheduledAudio(src, when, tick);
+    }
+
+    private removeScheduled(entry: ScheduledEvent) {
+        this._scheduled = this._scheduled.filter((e) => e !== entry);
+    }
+
+    private trackScheduledAudio(node: AudioBufferSourceNode, when: number, tick: number) {
+        const entry: ScheduledAudioEvent = { type: 'audio', node, when, tick };
+        this._scheduled.push(entry);
+        node.onended = () => {
+            this.removeScheduled(entry);
+        };
+    }
+
+    private scheduleHtmlPlayback(when: number, tick: number, run: () => void) {
+        const ctx = this._audioCtx;
+        const delayMs = ctx ? Math.max(0, (when - ctx.currentTime) * 1000) : 0;
+        let entry: ScheduledHtmlEvent;
+        const timeout = setTimeout(() => {
+            try {
+                run();
+            } finally {
+                this.removeScheduled(entry);
+            }
+        }, delayMs);
+        entry = { type: 'html', timeout, when, tick } as ScheduledHtmlEvent;
+        this._scheduled.push(entry);
+    }
+
+    private async fetchDecode(url: string): Promise<AudioBuffer> {
+        if (!this._audioCtx) throw new Error('AudioContext not ready');
+        const res = await fetch(url);
+        const arr = await res.arrayBuffer();
+        return await this._audioCtx.decodeAudioData(arr);
+    }
+
+    private async loadMetronomeBuffer(sound: MetronomeSound) {
+        if (this._metronomeBuffers.has(sound)) return;
+        try {
+            this._metronomeBuffers.set(sound, await this.fetchDecode(METRONOME_SOUNDS[sound].url));
+        } catch {}
+    }
+
+    private async loadInstrumentBuffer(inst: Instrument): Promise<AudioBuffer | null> {
+        if (!browser) return null;
+        if (isCustomInstrument(inst)) return await this.loadCustomInstrumentBuffer(inst);
+        const existing = this._buffers.get(inst);
+        if (existing) return existing;
+        const url = getBundledSampleUrl(inst);
+        if (!url) return null;
+        const generation = this._bufferGeneration;
+        try {
+            const buf = await this.decodeBuiltInSample(inst, url);
+            if (generation === this._bufferGeneration) this._buffers.set(inst, buf);
+            return buf;
+        } catch {
+            return null;
+        }
+    }
+
+    /** Decode the resource pack's sound for an instrument, or the bundled one without a pack. */
+    private async decodeBuiltInSample(inst: Instrument, fallbackUrl: string): Promise<AudioBuffer> {
+        const packSound = getResourcePackSound(this.resourcePack, inst);
+        if (packSound && this._audioCtx) {
+            try {
+                return await this._audioCtx.decodeAudioData(packSound.buffer);
+            } catch (error) {
+                console.warn('Failed to decode resource pack sound, using the default', error);
+            }
+        }
+        return await this.fetchDecode(fallbackUrl);
+    }
+
+    private async loadCustomInstrumentBuffer(inst: Instrument): Promise<AudioBuffer | null> {
+        const custom = findCustomInstrument(this.song(), inst);
+        if (!custom?.sample || !this._audioCtx) return null;
+        const existing = this.getSample(inst);
+        if (existing) return existing.buffer;
+        const sample = custom.sample;
+        try {
+            const bytes = await loadCustomSample(sample);
+            if (!bytes) return null;
+            // Decoding detaches the buffer it is given, so keep the stored bytes intact
+            const buf = await this._audioCtx.decodeAudioData(bytes.slice().buffer);
+            this._buffers.set(inst, buf);
+            this._customBufferSample.set(inst, sample);
+            return buf;
+        } catch {
+            return null;
+        }
+    }
+}
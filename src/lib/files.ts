@@ -1,5 +1,17 @@
 import JSZip from 'jszip';
-import type { Channel, Song } from './types';
+import { loadCustomSample, storeCustomSample } from './sample-store';
+import {
+    DEFAULT_CHANNEL_EFFECTS,
+    DEFAULT_SONG_MIXING,
+    DEFAULT_SONG_TRANSPORT,
+    type Channel,
+    type ChannelEffects,
+    type CustomInstrument,
+    type NbsSongInfo,
+    type Song,
+    type SongMixing,
+    type SongTransport
+} from './types';
 
 /**
  * File handling utilities for Noteblock Studio songs
@@ -45,6 +57,10 @@ interface SongMetadata {
     name: string;
     author: string;
     description: string;
+    mixing?: SongMixing; // Omitted until the song's mix settings are changed
+    transport?: SongTransport; // Omitted until count-in or pre-roll is set
+    customInstruments?: Omit<CustomInstrument, 'sample'>[]; // Samples live in assets/
+    nbs?: NbsSongInfo; // Only for songs imported from NBS
 }
 
 /**
@@ -62,8 +78,11 @@ interface ChannelData {
  */
 interface NoteChannelData {
     pan: number;
+    volume?: number; // Missing in files written before channel volume existed
     instrument: number;
     isMuted: boolean;
+    isLocked?: boolean; // Only for channels from locked NBS layers
+    effects?: ChannelEffects; // Omitted for channels without effects
     sections: {
         startingTick: number;
         length: number;
@@ -73,6 +92,7 @@ interface NoteChannelData {
             key: number;
             velocity: number;
             pitch: number;
+            pan?: number; // Omitted for centered notes
         }[];
     }[];
 }
@@ -89,6 +109,19 @@ interface TempoChannelData {
     }[];
 }
 
+/**
+ * Fill in effect settings missing from older or hand-edited files with the defaults
+ */
+function readChannelEffects(data: Partial<ChannelEffects> | undefined): ChannelEffects | undefined {
+    if (!data) return undefined;
+    return {
+        eq: { ...DEFAULT_CHANNEL_EFFECTS.eq, ...data.eq },
+        compressor: { ...DEFAULT_CHANNEL_EFFECTS.compressor, ...data.compressor },
+        delay: { ...DEFAULT_CHANNEL_EFFECTS.delay, ...data.delay },
+        reverbSend: data.reverbSend ?? DEFAULT_CHANNEL_EFFECTS.reverbSend
+    };
+}
+
 /**
  * Generate a stable channel ID based on channel properties
  */
@@ -129,16 +162,31 @@ export async function songToNbx(song: Song): Promise<Uint8Array> {
             description: song.description
         },
         channels: [],
-        assets: song.metadata?.assets || []
+        assets: []
     };
 
+    // Custom instrument samples are stored as binary assets next to the JSON files
+    const customInstruments = song.customInstruments ?? [];
+    for (const custom of customInstruments) {
+        const path = `${NBX_FILES.ASSETS}${custom.file}`;
+        const bytes = custom.sample ? await loadCustomSample(custom.sample) : null;
+        if (bytes) zip.file(path, bytes);
+        manifest.assets.push(path);
+    }
+
     // Add song metadata
     const songMetadata: SongMetadata = {
         length: song.length,
         tempo: song.tempo,
         name: song.name,
         author: song.author,
-        description: song.description
+        description: song.description,
+        mixing: song.mixing,
+        transport: song.transport,
+        customInstruments: customInstruments.length
+            ? customInstruments.map(({ id, name, baseKey, file }) => ({ id, name, baseKey, file }))
+            : undefined,
+        nbs: song.nbs
     };
     zip.file(NBX_FILES.SONG, JSON.stringify(songMetadata, null, 2));
 
@@ -157,8 +205,11 @@ export async function songToNbx(song: Song): Promise<Uint8Array> {
                 type: 'note',
                 data: {
                     pan: channel.pan,
+                    volume: channel.volume,
                     instrument: channel.instrument,
                     isMuted: channel.isMuted,
+                    isLocked: channel.isLocked,
+                    effects: channel.effects,
                     sections: channel.sections.map((section) => ({
                         startingTick: section.startingTick,
                         length: section.length,
@@ -233,8 +284,11 @@ export async function nbxToSong(nbxData: Uint8Array): Promise<Song> {
                 id: channelData.id,
                 name: channelData.name,
                 pan: noteData.pan,
+                volume: noteData.volume ?? 100,
                 instrument: noteData.instrument,
                 isMuted: noteData.isMuted,
+                isLocked: noteData.isLocked,
+                effects: readChannelEffects(noteData.effects),
                 sections: noteData.sections
             });
         } else {
@@ -248,6 +302,13 @@ export async function nbxToSong(nbxData: Uint8Array): Promise<Song> {
         }
     }
 
+    const customInstruments: CustomInstrument[] = [];
+    for (const custom of songMetadata.customInstruments ?? []) {
+        const asset = zip.file(`${NBX_FILES.ASSETS}${custom.file}`);
+        const sample = asset ? storeCustomSample(await asset.async('uint8array')) : undefined;
+        customInstruments.push({ ...custom, sample });
+    }
+
     return {
         length: songMetadata.length,
         tempo: songMetadata.tempo,
@@ -255,6 +316,14 @@ export async function nbxToSong(nbxData: Uint8Array): Promise<Song> {
         name: songMetadata.name,
         author: songMetadata.author,
         description: songMetadata.description,
+        mixing: songMetadata.mixing
+            ? { ...DEFAULT_SONG_MIXING, ...songMetadata.mixing }
+            : undefined,
+        transport: songMetadata.transport
+            ? { ...DEFAULT_SONG_TRANSPORT, ...songMetadata.transport }
+            : undefined,
+        customInstruments: customInstruments.length ? customInstruments : undefined,
+        nbs: songMetadata.nbs,
         metadata: {
             version: manifest.version,
             format: manifest.format,
@@ -1,4 +1,12 @@
-import type { Instrument, Note, NoteChannel, NoteSection, TempoChannel } from '../../types';
+import type {
+    CustomInstrument,
+    Instrument,
+    Note,
+    NoteChannel,
+    NoteSection,
+    SongMixing,
+    TempoChannel
+} from '../../types';
 import type { HistoryAction, HistoryActionContext } from '../types';
 import { getSong } from '../utils';
 
@@ -18,6 +26,8 @@ function applyNoteState(target: Note, state: Partial<Note>): void {
         const value = state[key];
         if (typeof value === 'number') {
             target[key] = value;
+        } else if (key === 'pan' && value === undefined) {
+            delete target.pan; // Back to centered
         }
     }
 }
@@ -255,6 +265,7 @@ export function createCreateNoteChannelAction(
         instrument: channelData.instrument,
         sections: [],
         pan: 0,
+        volume: 100,
         isMuted: false
     };
 
@@ -296,6 +307,48 @@ export function createSetTempoAction(newTempo: number, oldTempo: number): Histor
     };
 }
 
+/**
+ * Action for updating the song's master bus and reverb settings
+ */
+export function createUpdateMixingAction(
+    updates: Partial<SongMixing>,
+    previousState: Partial<SongMixing>
+): HistoryAction {
+    return {
+        label: 'Update mixing',
+        do(ctx) {
+            ctx.player.updateMixing(updates, { skipHistory: true });
+        },
+        undo(ctx) {
+            ctx.player.updateMixing(previousState, { skipHistory: true });
+        },
+        canCoalesceWith(next) {
+            return next.label === 'Update mixing';
+        }
+    };
+}
+
+/**
+ * Action for replacing the song's custom instrument samples
+ */
+export function createSetCustomInstrumentsAction(
+    customInstruments: CustomInstrument[],
+    previous: CustomInstrument[]
+): HistoryAction {
+    return {
+        label: 'Update custom instruments',
+        do(ctx) {
+            ctx.player.setCustomInstruments(customInstruments, { skipHistory: true });
+        },
+        undo(ctx) {
+            ctx.player.setCustomInstruments(previous, { skipHistory: true });
+        },
+        canCoalesceWith(next) {
+            return next.label === 'Update custom instruments';
+        }
+    };
+}
+
 /**
  * Action for adding a note to a section
  */
@@ -0,0 +1,128 @@
+import type { TrackJSON } from '@tonejs/midi';
+import { describe, expect, it } from 'vitest';
+import {
+    DEFAULT_INSTRUMENT_RULES,
+    matchInstrumentRule,
+    normalizeInstrumentRuleSet,
+    type InstrumentRuleSet
+} from './instrument-rules';
+import { Instrument } from './types';
+
+function track(program: number, notes: number[] = [60], channel = 0): TrackJSON {
+    return {
+        channel,
+        instrument: { number: program },
+        notes: notes.map((midi) => ({ midi }))
+    } as unknown as TrackJSON;
+}
+
+const ruleSet: InstrumentRuleSet = {
+    name: 'Test',
+    rules: [
+        {
+            label: 'Low pianos',
+            programs: [0, 7],
+            instrument: Instrument.DoubleBass,
+            keyRange: [0, 47],
+            octaveOffset: 1
+        },
+        {
+            label: 'Pianos',
+            programs: [0, 7],
+            instrument: Instrument.Piano,
+            keyRange: null,
+            octaveOffset: null
+        }
+    ],
+    overrides: { 4: { instrument: Instrument.Pling, octaveOffset: -1 } }
+};
+
+describe('instrument rule matching', () => {
+    it('uses the first rule whose programs and key range match', () => {
+        expect(matchInstrumentRule(track(1, [36, 40]), ruleSet)).toEqual({
+            instrument: Instrument.DoubleBass,
+            octaveOffset: 1
+        });
+        expect(matchInstrumentRule(track(1, [60, 72]), ruleSet)).toEqual({
+            instrument: Instrument.Piano,
+            octaveOffset: null
+        });
+        // A track without notes has no average, so key-ranged rules skip it
+        expect(matchInstrumentRule(track(1, []), ruleSet).instrument).toBe(Instrument.Piano);
+    });
+
+    it('lets an override win over the rules', () => {
+        expect(matchInstrumentRule(track(4, [36]), ruleSet)).toEqual({
+            instrument: Instrument.Pling,
+            octaveOffset: -1
+        });
+    });
+
+    it('falls back to the piano and sends MIDI channel 10 to the drums', () => {
+        expect(matchInstrumentRule(track(40), ruleSet)).toEqual({
+            instrument: Instrument.Piano,
+            octaveOffset: null
+        });
+        expect(matchInstrumentRule(track(40, [36], 9), ruleSet).instrument).toBe(
+            Instrument.BassDrum
+        );
+    });
+
+    it('maps the General MIDI families with the default rules', () => {
+        const instruments = Array.from(
+            { length: 128 },
+            (_, program) => matchInstrumentRule(track(program), DEFAULT_INSTRUMENT_RULES).instrument
+        );
+        expect(instruments[33]).toBe(Instrument.DoubleBass);
+        expect(instruments[81]).toBe(Instrument.Bit);
+        expect(instruments[127]).toBe(Instrument.Click);
+    });
+});
+
+describe('instrument rule sets', () => {
+    it('reads back a saved rule set unchanged', () => {
+        const json = JSON.parse(JSON.stringify(ruleSet));
+        expect(normalizeInstrumentRuleSet(json)).toEqual(ruleSet);
+    });
+
+    it('drops invalid rules and overrides and cleans up the rest', () => {
+        const normalized = normalizeInstrumentRuleSet({
+            name: '  ',
+            rules: [
+                {
+                    label: 3,
+                    programs: [20, 10],
+                    instrument: Instrument.Guitar,
+                    keyRange: [0, 200],
+                    octaveOffset: 9
+                },
+                { label: 'Bad programs', programs: [0, 128], instrument: Instrument.Piano },
+                { label: 'Bad instrument', programs: [0, 1], instrument: 99 },
+                null
+            ],
+            overrides: {
+                5: { instrument: Instrument.Bell, octaveOffset: 1.5 },
+                200: { instrument: Instrument.Bell, octaveOffset: 0 },
+                6: { instrument: 99, octaveOffset: 0 }
+            }
+        });
+        expect(normalized).toEqual({
+            name: 'Imported rules',
+            rules: [
+                {
+                    label: '',
+                    programs: [10, 20],
+                    instrument: Instrument.Guitar,
+                    keyRange: null,
+                    octaveOffset: 4
+                }
+            ],
+            overrides: { 5: { instrument: Instrument.Bell, octaveOffset: null } }
+        });
+    });
+
+    it('rejects values without a rule list', () => {
+        expect(normalizeInstrumentRuleSet(null)).toBeNull();
+        expect(normalizeInstrumentRuleSet({ name: 'Rules', overrides: {} })).toBeNull();
+    });
+});
@@ -0,0 +1,189 @@
+import { browser } from '$app/environment';
+import type { TrackJSON } from '@tonejs/midi';
+import { ALL_INSTRUMENTS, Instrument } from './types';
+
+const STORAGE_KEY = 'noteblock-studio:instrument-rules';
+
+/**
+ * Maps a range of General MIDI programs to a noteblock instrument. With a key range the rule
+ * only matches tracks whose average note falls inside it, e.g. to send low pianos to the bass.
+ */
+export interface InstrumentRule {
+    label: string;
+    programs: [number, number]; // First and last GM program (0-127) the rule covers
+    instrument: Instrument;
+    keyRange: [number, number] | null; // MIDI note range of the track's average note
+    octaveOffset: number | null; // Octaves to transpose by; null picks the best fitting octave
+}
+
+/** What a single GM program maps to, ahead of every rule. */
+export interface ProgramOverride {
+    instrument: Instrument;
+    octaveOffset: number | null;
+}
+
+/**
+ * A shareable set of conversion rules. Overrides win over rules, and the first matching rule
+ * wins over later ones; programs nothing matches play on the piano.
+ */
+export interface InstrumentRuleSet {
+    name: string;
+    rules: InstrumentRule[];
+    overrides: Record<number, ProgramOverride>;
+}
+
+export interface InstrumentMatch {
+    instrument: Instrument;
+    octaveOffset: number | null;
+}
+
+const rule = (label: string, first: number, last: number, instrument: Instrument) =>
+    ({
+        label,
+        programs: [first, last],
+        instrument,
+        keyRange: null,
+        octaveOffset: null
+    }) satisfies InstrumentRule;
+
+export const DEFAULT_INSTRUMENT_RULES: InstrumentRuleSet = {
+    name: 'Default',
+    rules: [
+        rule('Pianos', 0, 7, Instrument.Piano),
+        rule('Chromatic percussion', 8, 15, Instrument.Bell),
+        rule('Organs', 16, 23, Instrument.Chime),
+        rule('Guitars', 24, 31, Instrument.Guitar),
+        rule('Basses', 32, 39, Instrument.DoubleBass),
+        rule('Strings', 40, 47, Instrument.Flute),
+        rule('Ensemble strings', 48, 55, Instrument.Flute),
+        rule('Brass', 56, 63, Instrument.Didgeridoo),
+        rule('Reeds', 64, 71, Instrument.Flute),
+        rule('Pipes', 72, 79, Instrument.Flute),
+        rule('Synth leads and pads', 80, 95, Instrument.Bit),
+        rule('Synth effects', 96, 103, Instrument.Pling),
+        rule('Ethnic', 104, 111, Instrument.Banjo),
+        rule('Percussive', 112, 119, Instrument.SnareDrum),
+        rule('Sound effects', 120, 127, Instrument.Click)
+    ],
+    overrides: {}
+};
+
+function averageNote(track: TrackJSON): number | null {
+    if (!track.notes.length) return null;
+    return track.notes.reduce((sum, note) => sum + note.midi, 0) / track.notes.length;
+}
+
+/** Instrument and octave offset the rule set gives a MIDI track. */
+export function matchInstrumentRule(track: TrackJSON, ruleSet: InstrumentRuleSet): InstrumentMatch {
+    if (track.channel === 9) {
+        return { instrument: Instrument.BassDrum, octaveOffset: 0 };
+    }
+
+    const program = track.instrument.number ?? 0;
+    const override = ruleSet.overrides[program];
+    if (override) return { ...override };
+
+    const average = averageNote(track);
+    for (const candidate of ruleSet.rules) {
+        const [first, last] = candidate.programs;
+        if (program < first || program > last) continue;
+        if (candidate.keyRange) {
+            const [low, high] = candidate.keyRange;
+            if (average === null || average < low || average > high) continue;
+        }
+        return { instrument: candidate.instrument, octaveOffset: candidate.octaveOffset };
+    }
+
+    return { instrument: Instrument.Piano, octaveOffset: null };
+}
+
+function isMidiValue(value: unknown): value is number {
+    return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 127;
+}
+
+function normalizeRange(value: unknown): [number, number] | null {
+    if (!Array.isArray(value) || !isMidiValue(value[0]) || !isMidiValue(value[1])) return null;
+    return [Math.min(value[0], value[1]), Math.max(value[0], value[1])];
+}
+
+function normalizeOctaveOffset(value: unknown): number | null {
+    return Number.isInteger(value) ? Math.max(-4, Math.min(4, value as number)) : null;
+}
+
+/**
+ * Check a parsed rule set, e.g. from storage or an imported JSON file. Rules and overrides
+ * with unknown instruments or out-of-range programs are dropped.
+ */
+export function normalizeInstrumentRuleSet(value: unknown): InstrumentRuleSet | null {
+    if (!value || typeof value !== 'object') return null;
+    const { name, rules, overrides } = value as Partial<InstrumentRuleSet>;
+    if (!Array.isArray(rules)) return null;
+
+    const normalizedRules: InstrumentRule[] = [];
+    for (const candidate of rules) {
+        const programs = normalizeRange(candidate?.programs);
+        if (!programs || !ALL_INSTRUMENTS.includes(candidate.instrument)) continue;
+        normalizedRules.push({
+            label: typeof candidate.label === 'string' ? candidate.label : '',
+            programs,
+            instrument: candidate.instrument,
+            keyRange: normalizeRange(candidate.keyRange),
+            octaveOffset: normalizeOctaveOffset(candidate.octaveOffset)
+        });
+    }
+
+    const normalizedOverrides: Record<number, ProgramOverride> = {};
+    for (const [program, override] of Object.entries(overrides ?? {})) {
+        if (!isMidiValue(Number(program)) || !ALL_INSTRUMENTS.includes(override?.instrument)) {
+            continue;
+        }
+        normalizedOverrides[Number(program)] = {
+            instrument: override.instrument,
+            octaveOffset: normalizeOctaveOffset(override.octaveOffset)
+        };
+    }
+
+    return {
+        name: typeof name === 'string' && name.trim() ? name.trim() : 'Imported rules',
+        rules: normalizedRules,
+        overrides: normalizedOverrides
+    };
+}
+
+export function cloneInstrumentRuleSet(ruleSet: InstrumentRuleSet): InstrumentRuleSet {
+    return {
+        name: ruleSet.name,
+        rules: ruleSet.rules.map((candidate) => ({
+            ...candidate,
+            programs: [...candidate.programs],
+            keyRange: candidate.keyRange ? [...candidate.keyRange] : null
+        })),
+        overrides: Object.fromEntries(
+            Object.entries(ruleSet.overrides).map(([program, override]) => [
+                program,
+                { ...override }
+            ])
+        )
+    };
+}
+
+export function loadInstrumentRules(): InstrumentRuleSet {
+    if (!browser) return DEFAULT_INSTRUMENT_RULES;
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return DEFAULT_INSTRUMENT_RULES;
+        return normalizeInstrumentRuleSet(JSON.parse(raw)) ?? DEFAULT_INSTRUMENT_RULES;
+    } catch (error) {
+        console.error('Failed to load instrument rules from localStorage', error);
+        return DEFAULT_INSTRUMENT_RULES;
+    }
+}
+
+export function saveInstrumentRules(ruleSet: InstrumentRuleSet): void {
+    if (!browser) return;
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(ruleSet));
+    } catch (error) {
+        console.error('Failed to save instrument rules to localStorage', error);
+    }
+}
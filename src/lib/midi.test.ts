@@ -0,0 +1,366 @@
+import type { HeaderJSON, TrackJSON } from '@tonejs/midi';
+import { describe, expect, it } from 'vitest';
+import {
+    assignMidiChannels,
+    buildMidiTimeline,
+    createMidiQuantizer,
+    DEFAULT_MIDI_IMPORT_OPTIONS,
+    intoChannelAsInstrument,
+    Midi,
+    type MidiImportOptions,
+    songToMidi
+} from './midi';
+import { PERCUSSION_MAPPING } from './percussion-mapping';
+import { Instrument, type Channel, type Note, type NoteChannel, type Song } from './types';
+
+const PPQ = 480;
+
+const header = {
+    name: '',
+    ppq: PPQ,
+    tempos: [],
+    timeSignatures: [],
+    keySignatures: [],
+    meta: []
+} as HeaderJSON;
+
+function headerWith(
+    tempos: { ticks: number; bpm: number }[],
+    timeSignatures: { ticks: number; timeSignature: number[] }[] = []
+): HeaderJSON {
+    return { ...header, tempos, timeSignatures } as HeaderJSON;
+}
+
+const quantizer = createMidiQuantizer(
+    buildMidiTimeline(header, DEFAULT_MIDI_IMPORT_OPTIONS.ticksPerBeat),
+    DEFAULT_MIDI_IMPORT_OPTIONS
+);
+
+function track(
+    notes: { midi: number; ticks: number; durationTicks: number }[],
+    pedal: { ticks: number; value: number }[]
+): TrackJSON {
+    return {
+        name: 'Piano',
+        channel: 0,
+        instrument: { number: 0, family: 'piano', name: 'acoustic grand piano' },
+        notes: notes.map((note) => ({ ...note, velocity: 0.8, name: '', time: 0, duration: 0 })),
+        controlChanges: {
+            64: pedal.map((change) => ({ ...change, number: 64, time: 0 }))
+        },
+        pitchBends: [],
+        endOfTrackTicks: undefined
+    } as unknown as TrackJSON;
+}
+
+function noteChannel(instrument: Instrument, notes: Note[] = []): NoteChannel {
+    return {
+        kind: 'note',
+        name: `Channel ${instrument}`,
+        sections: [{ startingTick: 0, length: 16, notes, name: 'Main Section' }],
+        pan: 0,
+        volume: 100,
+        instrument,
+        isMuted: false
+    };
+}
+
+function note(tick: number, key: number, pitch = 0): Note {
+    return { tick, key, velocity: 100, pitch };
+}
+
+function song(channels: Channel[]): Song {
+    return { length: 64, tempo: 10, channels, name: 'Test', author: '', description: '' };
+}
+
+function noteTicks(midiTrack: TrackJSON, key: number): number[] {
+    const channel = intoChannelAsInstrument(midiTrack, Instrument.Piano, quantizer, {
+        sustain: true
+    });
+    return channel.sections[0].notes.filter((note) => note.key === key).map((note) => note.tick);
+}
+
+describe('sustain pedal import', () => {
+    it('repeats a held note every beat until the pedal lifts', () => {
+        const midiTrack = track(
+            [{ midi: 60, ticks: 0, durationTicks: PPQ / 2 }],
+            [
+                { ticks: 0, value: 1 },
+                { ticks: PPQ * 3, value: 0 }
+            ]
+        );
+        expect(noteTicks(midiTrack, 39)).toEqual([0, 4, 8]);
+    });
+
+    it('ends a pedal that is never released with the track', () => {
+        const midiTrack = track(
+            [
+                { midi: 60, ticks: 0, durationTicks: PPQ / 2 },
+                { midi: 64, ticks: PPQ * 4, durationTicks: PPQ }
+            ],
+            [{ ticks: 0, value: 1 }]
+        );
+        // The first note rings until the last note ends, five beats in
+        expect(noteTicks(midiTrack, 39)).toEqual([0, 4, 8, 12, 16]);
+        expect(noteTicks(midiTrack, 43)).toEqual([16]);
+    });
+
+    it('caps the repeats of a note under a long pedal', () => {
+        const midiTrack = track(
+            [{ midi: 60, ticks: 0, durationTicks: PPQ / 2 }],
+            [
+                { ticks: 0, value: 1 },
+                { ticks: PPQ * 10_000, value: 0 }
+            ]
+        );
+        expect(noteTicks(midiTrack, 39)).toHaveLength(33);
+    });
+});
+
+describe('MIDI export channels', () => {
+    const melodic = [
+        Instrument.Piano,
+        Instrument.DoubleBass,
+        Instrument.Guitar,
+        Instrument.Flute,
+        Instrument.Bell,
+        Instrument.Chime,
+        Instrument.Xylophone,
+        Instrument.IronXylophone,
+        Instrument.CowBell,
+        Instrument.Didgeridoo,
+        Instrument.Bit,
+        Instrument.Banjo,
+        Instrument.Pling
+    ];
+
+    it('gives each channel its own MIDI channel while there are enough', () => {
+        const channels = [Instrument.Piano, Instrument.Piano, Instrument.Flute].map((instrument) =>
+            noteChannel(instrument)
+        );
+        const { channels: assigned, wrapped } = assignMidiChannels(song(channels), {
+            percussionToDrums: true
+        });
+        expect(channels.map((channel) => assigned.get(channel))).toEqual([0, 1, 2]);
+        expect(wrapped).toBe(false);
+    });
+
+    it('shares MIDI channels between channels of one instrument past 15 channels', () => {
+        const channels = [...melodic, ...melodic].map((instrument) => noteChannel(instrument));
+        const { channels: assigned, wrapped } = assignMidiChannels(song(channels), {
+            percussionToDrums: true
+        });
+        for (let i = 0; i < melodic.length; i++) {
+            expect(assigned.get(channels[i + melodic.length])).toBe(assigned.get(channels[i]));
+        }
+        expect(new Set(assigned.values()).size).toBe(melodic.length);
+        expect([...assigned.values()]).not.toContain(9);
+        expect(wrapped).toBe(false);
+    });
+
+    it('puts drums on channel 10 and reports instruments that still do not fit', () => {
+        const drums = noteChannel(Instrument.SnareDrum);
+        const customs = Array.from({ length: 16 }, (_, index) => noteChannel(100 + index));
+        const extra = [Instrument.Flute, Instrument.Bell].map((instrument) =>
+            noteChannel(instrument)
+        );
+        const { channels: assigned, wrapped } = assignMidiChannels(
+            song([drums, ...customs, ...extra]),
+            { percussionToDrums: true }
+        );
+        expect(assigned.get(drums)).toBe(9);
+        // Custom instruments export as piano, so they share one MIDI channel
+        expect(new Set(customs.map((channel) => assigned.get(channel))).size).toBe(1);
+        expect(wrapped).toBe(false);
+
+        const many = [...melodic, Instrument.BassDrum, Instrument.SnareDrum, Instrument.Click];
+        const all = [...many, ...many].map((instrument) => noteChannel(instrument));
+        expect(assignMidiChannels(song(all), { percussionToDrums: false }).wrapped).toBe(true);
+    });
+});
+
+describe('MIDI export', () => {
+    it('writes the tempo map and time signatures with beats as quarter notes', () => {
+        const exported = new Midi(
+            songToMidi(
+                song([
+                    {
+                        kind: 'tempo',
+                        name: 'Tempo',
+                        tempoChanges: [
+                            { tick: 0, tempo: 8, ticksPerBeat: 4, beatsPerBar: 4 },
+                            { tick: 16, tempo: 12, ticksPerBeat: 4, beatsPerBar: 3 },
+                            { tick: 28, tempo: 12, ticksPerBeat: 2, beatsPerBar: 3 }
+                        ]
+                    },
+                    noteChannel(Instrument.Piano, [note(20, 39), note(30, 39)])
+                ]),
+                { percussionToDrums: true }
+            )
+        );
+        const { ppq } = exported.header;
+        // MIDI stores tempos as whole microseconds per beat, so BPM only survives rounded
+
+        expect(
+            exported.header.tempos.map(({ ticks, bpm }) => ({ ticks, bpm: Math.round(bpm) }))
+        ).toEqual([
+            { ticks: 0, bpm: 120 },
+            { ticks: 4 * ppq, bpm: 180 },
+            { ticks: 7 * ppq, bpm: 360 }
+        ]);
+        expect(
+            exported.header.timeSignatures.map(({ ticks, timeSignature }) => ({
+                ticks,
+                timeSignature
+            }))
+        ).toEqual([
+            { ticks: 0, timeSignature: [4, 4] },
+            { ticks: 4 * ppq, timeSignature: [3, 4] }
+        ]);
+        // Each note sits one beat after a tempo change, whatever its ticks per beat
+        expect(exported.tracks[0].notes.map((midiNote) => midiNote.ticks)).toEqual([
+            5 * ppq,
+            8 * ppq
+        ]);
+    });
+
+    it('writes drum channels as General MIDI drums on channel 10', () => {
+        const snare = PERCUSSION_MAPPING[38];
+        const drums = noteChannel(Instrument.SnareDrum, [
+            note(0, snare.key),
+            note(4, snare.key + 1)
+        ]);
+        const exported = new Midi(songToMidi(song([drums]), { percussionToDrums: true }));
+        const [track] = exported.tracks;
+
+        expect(track.channel).toBe(9);
+        // The exact key picks the standard drum note; other keys take the nearest mapped one
+        expect(track.notes[0].midi).toBe(38);
+        for (const midiNote of track.notes) {
+            expect(PERCUSSION_MAPPING[midiNote.midi].instrument).toBe(Instrument.SnareDrum);
+        }
+    });
+
+    it('keeps drum channels melodic when drum mapping is off', () => {
+        const drums = noteChannel(Instrument.SnareDrum, [note(0, 39)]);
+        const exported = new Midi(songToMidi(song([drums]), { percussionToDrums: false }));
+        const [track] = exported.tracks;
+
+        expect(track.channel).toBe(0);
+        expect(track.instrument.number).toBe(118);
+        expect(track.notes[0].midi).toBe(60);
+    });
+});
+
+describe('MIDI tempo map import', () => {
+    it('plays 4/4 at 120 BPM without tempo events', () => {
+        const timeline = buildMidiTimeline(headerWith([]), 4);
+        expect(timeline.tempoChanges).toEqual([
+            { tick: 0, tempo: 8, ticksPerBeat: 4, beatsPerBar: 4 }
+        ]);
+        expect(timeline.toSongTick(PPQ * 3)).toBe(12);
+    });
+
+    it('keeps a mid-bar tempo change where it falls', () => {
+        const timeline = buildMidiTimeline(
+            headerWith([
+                { ticks: 0, bpm: 120 },
+                { ticks: PPQ * 1.5, bpm: 60 },
+                // Restating the tempo adds no change
+                { ticks: PPQ * 2, bpm: 60 }
+            ]),
+            4
+        );
+        expect(timeline.tempoChanges).toEqual([
+            { tick: 0, tempo: 8, ticksPerBeat: 4, beatsPerBar: 4 },
+            { tick: 6, tempo: 4, ticksPerBeat: 4, beatsPerBar: 4 }
+        ]);
+        expect(timeline.toSongTick(PPQ * 2)).toBe(8);
+    });
+
+    it('counts beats in the time signature denominator', () => {
+        const timeline = buildMidiTimeline(
+            headerWith(
+                [
+                    { ticks: 0, bpm: 120 },
+                    { ticks: PPQ * 4, bpm: 90 }
+                ],
+                [
+                    { ticks: 0, timeSignature: [4, 4] },
+                    { ticks: PPQ * 4, timeSignature: [6, 8] }
+                ]
+            ),
+            4
+        );
+        // Events on one tick make a single change; an eighth-note beat is two ticks
+        expect(timeline.tempoChanges).toEqual([
+            { tick: 0, tempo: 8, ticksPerBeat: 4, beatsPerBar: 4 },
+            { tick: 16, tempo: 6, ticksPerBeat: 2, beatsPerBar: 6 }
+        ]);
+        expect(timeline.toSongTick(PPQ * 5)).toBe(20);
+    });
+});
+
+describe('MIDI import quantization', () => {
+    function quantize(
+        midiTicks: number,
+        options: Partial<MidiImportOptions>,
+        midiHeader: HeaderJSON = header
+    ): number {
+        const importOptions = { ...DEFAULT_MIDI_IMPORT_OPTIONS, ...options };
+        const timeline = buildMidiTimeline(midiHeader, importOptions.ticksPerBeat);
+        return createMidiQuantizer(timeline, importOptions).toSongTick(midiTicks);
+    }
+
+    // 12 ticks per beat: a third of a beat is exactly four ticks
+    const eighths = { ticksPerBeat: 12, gridDivision: 2 };
+
+    it('snaps onto the grid as far as the strength says', () => {
+        expect(quantize(PPQ / 3, { ...eighths })).toBe(6);
+        expect(quantize(PPQ / 3, { ...eighths, strength: 50 })).toBe(5);
+        expect(quantize(PPQ / 3, { ...eighths, grid: 'off' })).toBe(4);
+    });
+
+    it('fits three triplet lines in the space of two', () => {
+        expect(quantize(PPQ * 0.3, { ...eighths, grid: 'triplet' })).toBe(4);
+        expect(quantize(PPQ * 0.3, { ...eighths })).toBe(6);
+    });
+
+    it('counts the grid from the last time signature change', () => {
+        const midiHeader = headerWith(
+            [{ ticks: 0, bpm: 120 }],
+            [
+                { ticks: 0, timeSignature: [4, 4] },
+                { ticks: PPQ * (5 / 12), timeSignature: [3, 4] }
+            ]
+        );
+        // The change lands on tick 5, so the eighth-note grid runs 5, 11, 17...
+        expect(quantize(PPQ, { ...eighths }, midiHeader)).toBe(11);
+    });
+
+    it('merges, nudges or keeps notes that land on one tick and key', () => {
+        const midiTrack = track(
+            [
+                { midi: 60, ticks: 0, durationTicks: PPQ / 4 },
+                { midi: 60, ticks: PPQ / 16, durationTicks: PPQ / 4 }
+            ],
+            []
+        );
+        const place = (collisions: MidiImportOptions['collisions']) => {
+            const report = { moved: 0, merged: 0 };
+            const options = { ...DEFAULT_MIDI_IMPORT_OPTIONS, collisions };
+            const channel = intoChannelAsInstrument(
+                midiTrack,
+                Instrument.Piano,
+                createMidiQuantizer(buildMidiTimeline(header, options.ticksPerBeat), options),
+                {},
+                report
+            );
+            return { ticks: channel.sections[0].notes.map((note) => note.tick), report };
+        };
+
+        expect(place('merge')).toEqual({ ticks: [0], report: { moved: 0, merged: 1 } });
+        expect(place('nudge')).toEqual({ ticks: [0, 1], report: { moved: 1, merged: 0 } });
+        expect(place('keep')).toEqual({ ticks: [0, 0], report: { moved: 1, merged: 0 } });
+    });
+});
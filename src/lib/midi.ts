@@ -1,11 +1,24 @@
-import type { TrackJSON } from '@tonejs/midi';
-import type { Note, NoteChannel } from './types.js';
+import type { HeaderJSON, TrackJSON } from '@tonejs/midi';
+import * as MidiModule from '@tonejs/midi';
+import { DEFAULT_TIMING } from './engine/song-model.js';
+import { PERCUSSION_MAPPING } from './percussion-mapping.js';
+import type { Note, NoteChannel, Song, TempoChange } from './types.js';
 import {
     Instrument,
     NOTEBLOCK_HIGHEST_KEY_IN_MIDI,
     NOTEBLOCK_LOWEST_KEY_IN_MIDI
 } from './types.js';
 
+// @tonejs/midi is CommonJS; depending on the bundler its exports land on the namespace or on `default`
+type MidiCtor = typeof import('@tonejs/midi').Midi;
+const midiCtor =
+    (MidiModule as { Midi?: MidiCtor }).Midi ??
+    (MidiModule as { default?: { Midi?: MidiCtor } }).default?.Midi;
+if (!midiCtor) {
+    throw new Error('Failed to load @tonejs/midi.');
+}
+export const Midi = midiCtor;
+
 export interface PercussionTarget {
     instrument: Instrument;
     key: number;
@@ -13,32 +26,91 @@ export interface PercussionTarget {
 
 export type PercussionMapping = Record<number, PercussionTarget>;
 
-export function guessInstrumentForTrack(track: TrackJSON): Instrument {
-    const program = track.instrument.number ?? 0;
+const MIDI_TO_KEY_OFFSET = 21;
+const PITCH_BEND_RANGE_CENTS = 200; // The GM default of two semitones
+const SUSTAIN_PEDAL_CC = 64;
+const SUSTAIN_REPEAT_VELOCITY = 0.6; // Repeats are softer so the pedal reads as a tail
+const MAX_SUSTAIN_REPEATS = 32; // Per note, so a pedal held for minutes stays a short tail
 
-    if (track.channel === 9) {
-        return Instrument.BassDrum;
-    }
+/** How the notes of a MIDI track carry over, chosen per track in the import dialog. */
+export interface MidiTrackOptions {
+    transpose: number;
+    transposeWithinRange: boolean;
+    velocities: boolean; // Keep note velocities; otherwise every note plays at full velocity
+    pitchBends: boolean; // Sample the pitch bend at each onset into the note's pitch
+    sustain: boolean; // Repeat notes held by the sustain pedal (CC64) every beat
+}
 
-    if (program >= 8 && program <= 15) return Instrument.Bell; // Chromatic percussion
-    if (program >= 16 && program <= 23) return Instrument.Chime; // Organs / sustained
-    if (program >= 24 && program <= 31) return Instrument.Guitar; // Guitars
-    if (program >= 32 && program <= 39) return Instrument.DoubleBass; // Basses
-    if (program >= 40 && program <= 47) return Instrument.Flute; // Strings
-    if (program >= 48 && program <= 55) return Instrument.Flute; // Ensemble strings
-    if (program >= 56 && program <= 63) return Instrument.Didgeridoo; // Brass
-    if (program >= 64 && program <= 71) return Instrument.Flute; // Reeds
-    if (program >= 72 && program <= 79) return Instrument.Flute; // Pipes
-    if (program >= 80 && program <= 95) return Instrument.Bit; // Synth leads/pads
-    if (program >= 96 && program <= 103) return Instrument.Pling; // FX
-    if (program >= 104 && program <= 111) return Instrument.Banjo; // Ethnic
-    if (program >= 112 && program <= 119) return Instrument.SnareDrum; // Percussive
-    if (program >= 120) return Instrument.Click; // Sound effects
+export const DEFAULT_MIDI_TRACK_OPTIONS: MidiTrackOptions = {
+    transpose: 0,
+    transposeWithinRange: false,
+    velocities: true,
+    pitchBends: true,
+    sustain: false
+};
 
-    return Instrument.Piano;
+function toNoteVelocity(velocity: number, keepVelocity: boolean): number {
+    return keepVelocity ? clampToRange(Math.round(velocity * 100), 0, 100) : 100;
 }
 
-const MIDI_TO_KEY_OFFSET = 21;
+/** Pitch bend in effect at `ticks` in cents, assuming the default bend range. */
+function sampleBend(bends: TrackJSON['pitchBends'], ticks: number): number {
+    let value = 0;
+    for (const bend of bends) {
+        if (bend.ticks > ticks) break;
+        value = bend.value;
+    }
+    return Math.round(clampToRange(value, -1, 1) * PITCH_BEND_RANGE_CENTS);
+}
+
+/**
+ * Spans of MIDI ticks during which the sustain pedal is down. A pedal never released ends
+ * with the track: its last note or controller event.
+ */
+function findPedalSpans(track: TrackJSON): { start: number; end: number }[] {
+    const spans: { start: number; end: number }[] = [];
+    let downAt: number | null = null;
+    for (const change of track.controlChanges[SUSTAIN_PEDAL_CC] ?? []) {
+        const down = change.value >= 0.5;
+        if (down && downAt === null) downAt = change.ticks;
+        if (!down && downAt !== null) {
+            spans.push({ start: downAt, end: change.ticks });
+            downAt = null;
+        }
+    }
+    if (downAt !== null) {
+        let end = downAt;
+        for (const note of track.notes) end = Math.max(end, note.ticks + note.durationTicks);
+        for (const changes of Object.values(track.controlChanges)) {
+            for (const change of changes) end = Math.max(end, change.ticks);
+        }
+        spans.push({ start: downAt, end });
+    }
+    return spans;
+}
+
+/**
+ * Onsets repeating a note while the pedal keeps it ringing after its release: one every
+ * beat from the onset, until the pedal lifts or the same key is played again.
+ */
+function sustainRepeats(
+    midiNote: TrackJSON['notes'][number],
+    pedalSpans: { start: number; end: number }[],
+    nextOnset: number,
+    ppq: number
+): number[] {
+    const release = midiNote.ticks + midiNote.durationTicks;
+    const span = pedalSpans.find(({ start, end }) => start <= release && release < end);
+    if (!span) return [];
+    const until = Math.min(span.end, nextOnset);
+    const repeats: number[] = [];
+    for (let ticks = midiNote.ticks + ppq; ticks < until; ticks += ppq) {
+        if (ticks < release) continue;
+        repeats.push(ticks);
+        if (repeats.length >= MAX_SUSTAIN_REPEATS) break;
+    }
+    return repeats;
+}
 const OCTAVE_INTERVAL = 12;
 
 function clampToRange(value: number, min: number, max: number): number {
@@ -66,24 +138,48 @@ function centerMidiWithinNoteblockRange(midiValue: number): number {
 export function intoChannelAsInstrument(
     midiTrack: TrackJSON,
     instrument: Instrument,
-    tickScale = 1,
-    transpose = 0,
-    transposeWithinRange = false
+    quantizer: MidiQuantizer,
+    trackOptions: Partial<MidiTrackOptions> = {},
+    report?: QuantizeReport
 ): NoteChannel {
-    const notes: Note[] = midiTrack.notes
-        .map((midiNote) => {
-            let midiValue = Math.round(midiNote.midi + transpose);
-            if (transposeWithinRange) {
-                midiValue = centerMidiWithinNoteblockRange(midiValue);
-            }
-            return {
-                tick: Math.max(0, Math.round(midiNote.ticks * tickScale)),
-                key: clampToRange(midiValue - MIDI_TO_KEY_OFFSET, 0, 87),
-                velocity: 100,
-                pitch: 0 // Default pitch adjustment
-            } satisfies Note;
-        })
-        .sort((a, b) => a.tick - b.tick);
+    const options = { ...DEFAULT_MIDI_TRACK_OPTIONS, ...trackOptions };
+    const pedalSpans = options.sustain ? findPedalSpans(midiTrack) : [];
+    const sorted = [...midiTrack.notes].sort((a, b) => a.ticks - b.ticks);
+
+    // Where each note's key sounds next, which cuts its sustain
+    const nextOnsets: number[] = [];
+    const lastOnset = new Map<number, number>();
+    for (let i = sorted.length - 1; i >= 0; i--) {
+        nextOnsets[i] = lastOnset.get(sorted[i].midi) ?? Number.POSITIVE_INFINITY;
+        lastOnset.set(sorted[i].midi, sorted[i].ticks);
+    }
+
+    const entries = sorted.flatMap((midiNote, index) => {
+        let midiValue = Math.round(midiNote.midi + options.transpose);
+        if (options.transposeWithinRange) {
+            midiValue = centerMidiWithinNoteblockRange(midiValue);
+        }
+        const note = {
+            key: clampToRange(midiValue - MIDI_TO_KEY_OFFSET, 0, 87),
+            velocity: toNoteVelocity(midiNote.velocity, options.velocities),
+            pitch: options.pitchBends ? sampleBend(midiTrack.pitchBends, midiNote.ticks) : 0
+        };
+        if (!pedalSpans.length) return [{ ticks: midiNote.ticks, note }];
+
+        const repeats = sustainRepeats(midiNote, pedalSpans, nextOnsets[index], quantizer.ppq);
+        return [
+            { ticks: midiNote.ticks, note },
+            ...repeats.map((ticks) => ({
+                ticks,
+                note: {
+                    ...note,
+                    velocity: Math.round(note.velocity * SUSTAIN_REPEAT_VELOCITY),
+                    pitch: options.pitchBends ? sampleBend(midiTrack.pitchBends, ticks) : 0
+                }
+            }))
+        ];
+    });
+    const notes = placeNotes(entries, quantizer, report);
 
     const sectionLength = notes.length ? Math.max(...notes.map((n) => n.tick)) + 1 : 0;
 
@@ -99,6 +195,7 @@ export function intoChannelAsInstrument(
             }
         ],
         pan: 0,
+        volume: 100,
         instrument,
         isMuted: false
     };
@@ -107,29 +204,31 @@ export function intoChannelAsInstrument(
 export function intoChannelWithMapping(
     midiTrack: TrackJSON,
     mapping: PercussionMapping,
-    tickScale = 1
+    quantizer: MidiQuantizer,
+    trackOptions: Partial<MidiTrackOptions> = {},
+    report?: QuantizeReport
 ): NoteChannel[] {
-    const channelMap = new Map<Instrument, Note[]>();
+    const options = { ...DEFAULT_MIDI_TRACK_OPTIONS, ...trackOptions };
+    const channelMap = new Map<Instrument, { ticks: number; note: Omit<Note, 'tick'> }[]>();
 
     for (const midiNote of midiTrack.notes) {
         const mappedNote = mapping[midiNote.midi];
         if (!mappedNote) continue;
 
-        const note: Note = {
-            tick: Math.max(0, Math.round(midiNote.ticks * tickScale)),
+        const note = {
             key: clampToRange(mappedNote.key, 0, 87),
-            velocity: clampToRange(Math.round(midiNote.velocity * 100), 0, 100),
+            velocity: toNoteVelocity(midiNote.velocity, options.velocities),
             pitch: 0
         };
 
         if (!channelMap.has(mappedNote.instrument)) {
             channelMap.set(mappedNote.instrument, []);
         }
-        channelMap.get(mappedNote.instrument)!.push(note);
+        channelMap.get(mappedNote.instrument)!.push({ ticks: midiNote.ticks, note });
     }
 
     return Array.from(channelMap.entries()).map(([instrument, entries]) => {
-        const sorted = entries.sort((a, b) => a.tick - b.tick);
+        const sorted = placeNotes(entries, quantizer, report);
         const sectionLength = sorted.length ? Math.max(...sorted.map((n) => n.tick)) + 1 : 0;
 
         return {
@@ -144,8 +243,479 @@ export function intoChannelWithMapping(
                 }
             ],
             pan: 0,
+            volume: 100,
             instrument,
             isMuted: false
         };
     });
 }
+
+/**
+ * The tempo map of a MIDI file as song tempo changes, and the mapping of MIDI ticks to song
+ * ticks that goes with it.
+ */
+export interface MidiTimeline {
+    ppq: number; // MIDI ticks per quarter note
+    tempoChanges: TempoChange[];
+    toSongTick(midiTicks: number): number; // Position in song ticks, not rounded
+}
+
+const MIDI_DEFAULT_BPM = 120;
+const MAX_IMPORTED_BEATS_PER_BAR = 16;
+
+/**
+ * Turn every tempo and time-signature event of a MIDI file into song tempo changes. A beat is
+ * the signature's denominator note, so ticks per beat follow the denominator to keep about
+ * `ticksPerQuarter` ticks per quarter note. Where that rounds differently the tick density
+ * changes, so MIDI ticks map to song ticks piecewise from one change to the next.
+ */
+export function buildMidiTimeline(header: HeaderJSON, ticksPerQuarter: number): MidiTimeline {
+    const ppq = Number.isFinite(header.ppq) && header.ppq > 0 ? header.ppq : 480;
+    const events = [
+        ...(header.tempos ?? []).map((tempo) => ({ ticks: tempo.ticks, bpm: tempo.bpm })),
+        ...(header.timeSignatures ?? []).map((signature) => ({
+            ticks: signature.ticks,
+            timeSignature: signature.timeSignature
+        }))
+    ].sort((a, b) => a.ticks - b.ticks);
+
+    let bpm = MIDI_DEFAULT_BPM;
+    let numerator = 4;
+    let denominator = 4;
+    // Points of the map: where the MIDI and song timelines line up, with the density after it
+    const points: { midiTick: number; change: TempoChange; ticksPerQuarterNote: number }[] = [];
+
+    const addPoint = (midiTick: number) => {
+        const ticksPerBeat = Math.max(1, Math.round((ticksPerQuarter * 4) / denominator));
+        const ticksPerQuarterNote = (ticksPerBeat * denominator) / 4;
+        const previous = points[points.length - 1];
+        const tick = previous
+            ? previous.change.tick +
+              Math.round(((midiTick - previous.midiTick) * previous.ticksPerQuarterNote) / ppq)
+            : 0;
+        const change: TempoChange = {
+            tick,
+            tempo: (bpm / 60) * ticksPerQuarterNote,
+            ticksPerBeat,
+            beatsPerBar: clampToRange(Math.round(numerator), 1, MAX_IMPORTED_BEATS_PER_BAR)
+        };
+        if (
+            previous &&
+            previous.change.tempo === change.tempo &&
+            previous.change.ticksPerBeat === change.ticksPerBeat &&
+            previous.change.beatsPerBar === change.beatsPerBar
+        ) {
+            return;
+        }
+        // Events on the same song tick collapse into the last of them
+        if (previous?.change.tick === tick) points.pop();
+        points.push({ midiTick, change, ticksPerQuarterNote });
+    };
+
+    // MIDI plays 4/4 at 120 BPM until told otherwise
+    if (!events.length || events[0].ticks > 0) addPoint(0);
+    for (let i = 0; i < events.length; i++) {
+        const event = events[i];
+        if ('bpm' in event) {
+            if (Number.isFinite(event.bpm) && event.bpm > 0) bpm = event.bpm;
+        } else {
+            const [top, bottom] = event.timeSignature;
+            if (Number.isFinite(top) && top > 0) numerator = top;
+            if (Number.isFinite(bottom) && bottom > 0) denominator = bottom;
+        }
+        // Apply every event on a tick before adding its point
+        if (events[i + 1]?.ticks !== event.ticks) addPoint(event.ticks);
+    }
+
+    return {
+        ppq,
+        tempoChanges: points.map((point) => point.change),
+        toSongTick(midiTicks: number): number {
+            let point = points[0];
+            for (let i = points.length - 1; i > 0; i--) {
+                if (points[i].midiTick <= midiTicks) {
+                    point = points[i];
+                    break;
+                }
+            }
+            const offset = ((midiTicks - point.midiTick) * point.ticksPerQuarterNote) / ppq;
+            return Math.max(0, point.change.tick + offset);
+        }
+    };
+}
+
+/** Grid imported notes snap to: beat subdivisions, their triplets, or no grid at all. */
+export type QuantizeGrid = 'off' | 'straight' | 'triplet';
+
+/** What to do with notes that land on the same tick and key. */
+export type CollisionPolicy = 'merge' | 'nudge' | 'keep';
+
+export interface MidiImportOptions {
+    ticksPerBeat: number; // Song ticks per quarter note
+    grid: QuantizeGrid;
+    gridDivision: number; // Grid lines per beat, e.g. 4 for sixteenths; triplets fit 3 in 2
+    strength: number; // 0 (leave notes alone) to 100 (snap onto the grid)
+    collisions: CollisionPolicy;
+}
+
+export const DEFAULT_MIDI_IMPORT_OPTIONS: MidiImportOptions = {
+    ticksPerBeat: 4,
+    grid: 'straight',
+    gridDivision: 4,
+    strength: 100,
+    collisions: 'merge'
+};
+
+/** Places MIDI notes on song ticks following the import options. */
+export interface MidiQuantizer {
+    ppq: number;
+    toSongTick(midiTicks: number): number;
+    toExactSongTick(midiTicks: number): number;
+    collisions: CollisionPolicy;
+}
+
+/** How many notes of a track the quantizer moved off their exact position or merged. */
+export interface QuantizeReport {
+    moved: number;
+    merged: number;
+}
+
+/**
+ * Quantize against the grid of the time signature in effect, counted from its change so bar
+ * lines stay on the grid. Notes always end up on whole song ticks, even with the grid off.
+ */
+export function createMidiQuantizer(
+    timeline: MidiTimeline,
+    options: MidiImportOptions
+): MidiQuantizer {
+    const strength = clampToRange(options.strength, 0, 100) / 100;
+    const linesPerBeat =
+        options.grid === 'triplet' ? (options.gridDivision * 3) / 2 : options.gridDivision;
+    const changes = timeline.tempoChanges;
+
+    return {
+        ppq: timeline.ppq,
+        toExactSongTick: (midiTicks) => timeline.toSongTick(midiTicks),
+        toSongTick(midiTicks: number): number {
+            const exact = timeline.toSongTick(midiTicks);
+            if (options.grid === 'off' || strength === 0 || linesPerBeat <= 0) {
+                return Math.round(exact);
+            }
+            let change = changes[0];
+            for (let i = changes.length - 1; i > 0; i--) {
+                if (changes[i].tick <= exact) {
+                    change = changes[i];
+                    break;
+                }
+            }
+            const step = change.ticksPerBeat / linesPerBeat;
+            const target = change.tick + Math.round((exact - change.tick) / step) * step;
+            return Math.max(0, Math.round(exact + (target - exact) * strength));
+        },
+        collisions: options.collisions
+    };
+}
+
+const MOVED_EPSILON = 1e-6;
+
+/**
+ * Put notes on their song ticks and resolve collisions: `merge` keeps one note with the
+ * loudest velocity, `nudge` moves the later note to the next free tick, `keep` leaves both.
+ */
+function placeNotes(
+    entries: { ticks: number; note: Omit<Note, 'tick'> }[],
+    quantizer: MidiQuantizer,
+    report?: QuantizeReport
+): Note[] {
+    const placed: Note[] = [];
+    const occupied = new Map<string, Note>();
+
+    for (const { ticks, note } of [...entries].sort((a, b) => a.ticks - b.ticks)) {
+        let tick = quantizer.toSongTick(ticks);
+        let moved = Math.abs(tick - quantizer.toExactSongTick(ticks)) > MOVED_EPSILON;
+        const slot = (at: number) => `${at}:${note.key}`;
+        const existing = occupied.get(slot(tick));
+        if (existing && quantizer.collisions === 'merge') {
+            existing.velocity = Math.max(existing.velocity, note.velocity);
+            if (report) report.merged += 1;
+            continue;
+        }
+        if (existing && quantizer.collisions === 'nudge') {
+            while (occupied.has(slot(tick))) tick += 1;
+            moved = true;
+        }
+
+        const placedNote: Note = { tick, ...note };
+        if (!occupied.has(slot(tick))) occupied.set(slot(tick), placedNote);
+        placed.push(placedNote);
+        if (moved && report) report.moved += 1;
+    }
+
+    return placed.sort((a, b) => a.tick - b.tick);
+}
+
+export interface MidiExportOptions {
+    percussionToDrums: boolean; // Write drum channels to MIDI channel 10 with GM drum notes
+}
+
+const DRUM_CHANNEL = 9;
+const MELODIC_CHANNELS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 10, 11, 12, 13, 14, 15];
+
+// Unpitched noteblock instruments, exported as GM drums when `percussionToDrums` is set
+const PERCUSSION_INSTRUMENTS = new Set([
+    Instrument.BassDrum,
+    Instrument.SnareDrum,
+    Instrument.Click
+]);
+
+// Closest General MIDI program to each noteblock instrument; custom instruments use the piano
+const INSTRUMENT_PROGRAMS: Record<Instrument, number> = {
+    [Instrument.Piano]: 0, // Acoustic Grand Piano
+    [Instrument.DoubleBass]: 32, // Acoustic Bass
+    [Instrument.BassDrum]: 116, // Taiko Drum
+    [Instrument.SnareDrum]: 118, // Synth Drum
+    [Instrument.Click]: 115, // Woodblock
+    [Instrument.Guitar]: 24, // Acoustic Guitar (nylon)
+    [Instrument.Flute]: 73, // Flute
+    [Instrument.Bell]: 9, // Glockenspiel
+    [Instrument.Chime]: 14, // Tubular Bells
+    [Instrument.Xylophone]: 13, // Xylophone
+    [Instrument.IronXylophone]: 11, // Vibraphone
+    [Instrument.CowBell]: 113, // Agogo
+    [Instrument.Didgeridoo]: 58, // Tuba
+    [Instrument.Bit]: 80, // Lead 1 (square)
+    [Instrument.Banjo]: 105, // Banjo
+    [Instrument.Pling]: 4 // Electric Piano 1
+};
+
+/**
+ * `PERCUSSION_MAPPING` turned around: GM drum note by instrument and key. The standard GM
+ * drum range wins when several drum notes share a target.
+ */
+function invertPercussionMapping(): Map<Instrument, Map<number, number>> {
+    const inverted = new Map<Instrument, Map<number, number>>();
+    const drumNotes = Object.keys(PERCUSSION_MAPPING)
+        .map(Number)
+        .filter((midi) => midi >= 0 && midi <= 127)
+        .sort((a, b) => Number(a < 35) - Number(b < 35) || a - b);
+    for (const midi of drumNotes) {
+        const { instrument, key } = PERCUSSION_MAPPING[midi];
+        let byKey = inverted.get(instrument);
+        if (!byKey) inverted.set(instrument, (byKey = new Map()));
+        if (!byKey.has(key)) byKey.set(key, midi);
+    }
+    return inverted;
+}
+
+// GM drum note for a note, falling back to the drum mapped to the nearest key
+function findDrumNote(byKey: Map<number, number> | undefined, key: number): number | null {
+    if (!byKey?.size) return null;
+    const exact = byKey.get(key);
+    if (exact !== undefined) return exact;
+    let best: number | null = null;
+    let bestDistance = Number.POSITIVE_INFINITY;
+    for (const [mappedKey, midi] of byKey) {
+        const distance = Math.abs(mappedKey - key);
+        if (distance < bestDistance) {
+            best = midi;
+            bestDistance = distance;
+        }
+    }
+    return best;
+}
+
+/** MIDI channel of each note channel in a MIDI export. */
+export interface MidiChannelAssignment {
+    channels: Map<NoteChannel, number>;
+    wrapped: boolean; // More than 15 programs, so some share a MIDI channel with another
+}
+
+/**
+ * Pick the MIDI channel of each note channel. Melodic channels get one each while there are
+ * enough; beyond 15 of them, channels with the same program share one so their program
+ * changes agree (volume, pan and pitch bend are still shared). Only past 15 programs do
+ * channels wrap onto a MIDI channel that plays another program.
+ */
+export function assignMidiChannels(song: Song, options: MidiExportOptions): MidiChannelAssignment {
+    const drumNotes = options.percussionToDrums ? invertPercussionMapping() : null;
+    const channels = new Map<NoteChannel, number>();
+    const melodic: NoteChannel[] = [];
+    for (const channel of song.channels) {
+        if (channel.kind !== 'note') continue;
+        if (isDrumChannel(channel, drumNotes)) channels.set(channel, DRUM_CHANNEL);
+        else melodic.push(channel);
+    }
+
+    const byProgram = new Map<number, number>();
+    const shareByProgram = melodic.length > MELODIC_CHANNELS.length;
+    melodic.forEach((channel, index) => {
+        if (!shareByProgram) {
+            channels.set(channel, MELODIC_CHANNELS[index]);
+            return;
+        }
+        const program = getInstrumentProgram(channel.instrument);
+        let slot = byProgram.get(program);
+        if (slot === undefined) byProgram.set(program, (slot = byProgram.size));
+        channels.set(channel, MELODIC_CHANNELS[slot % MELODIC_CHANNELS.length]);
+    });
+
+    return { channels, wrapped: byProgram.size > MELODIC_CHANNELS.length };
+}
+
+function getInstrumentProgram(instrument: Instrument): number {
+    return INSTRUMENT_PROGRAMS[instrument] ?? 0;
+}
+
+function isDrumChannel(
+    channel: NoteChannel,
+    drumNotes: Map<Instrument, Map<number, number>> | null
+): boolean {
+    return (
+        PERCUSSION_INSTRUMENTS.has(channel.instrument) &&
+        drumNotes?.has(channel.instrument) === true
+    );
+}
+
+/**
+ * Tempo changes of the song with one at tick 0, each with the MIDI tick it lands on. Song
+ * ticks per beat can change along the song, so MIDI ticks are counted beat by beat.
+ */
+function buildTempoMap(song: Song, ppq: number): (TempoChange & { midiTick: number })[] {
+    const changes = song.channels
+        .flatMap((channel) => (channel.kind === 'tempo' ? channel.tempoChanges : []))
+        .sort((a, b) => a.tick - b.tick);
+    if (changes[0]?.tick !== 0) {
+        changes.unshift({
+            tick: 0,
+            tempo: song.tempo,
+            ticksPerBeat: DEFAULT_TIMING.ticksPerBeat,
+            beatsPerBar: DEFAULT_TIMING.beatsPerBar
+        });
+    }
+    const map: (TempoChange & { midiTick: number })[] = [];
+    for (const change of changes) {
+        const previous = map[map.length - 1];
+        const midiTick = previous
+            ? previous.midiTick + ((change.tick - previous.tick) * ppq) / previous.ticksPerBeat
+            : 0;
+        if (previous?.tick === change.tick) map[map.length - 1] = { ...change, midiTick };
+        else map.push({ ...change, midiTick });
+    }
+    return map;
+}
+
+function toMidiTick(
+    tempoMap: (TempoChange & { midiTick: number })[],
+    ppq: number,
+    tick: number
+): number {
+    let change = tempoMap[0];
+    for (const candidate of tempoMap) {
+        if (candidate.tick > tick) break;
+        change = candidate;
+    }
+    return Math.round(change.midiTick + ((tick - change.tick) * ppq) / change.ticksPerBeat);
+}
+
+/**
+ * Encode a song as a Standard MIDI File with one track per note channel, on the MIDI channels
+ * `assignMidiChannels` picks. Notes last one beat, or until the same key sounds again. Pitch
+ * cents round to the nearest key with the rest sent as pitch bend, which MIDI applies to the
+ * whole channel, so notes sounding together on a MIDI channel share it.
+ * Songs have no beat unit, so every beat is written as a quarter note: a bar of six beats
+ * exports as 6/4, never 6/8, at the same speed.
+ */
+export function songToMidi(song: Song, options: MidiExportOptions): Uint8Array {
+    const midi = new Midi();
+    midi.header.name = song.name;
+
+    const ppq = midi.header.ppq;
+    const tempoMap = buildTempoMap(song, ppq);
+    for (const change of tempoMap) {
+        const ticks = Math.round(change.midiTick);
+        midi.header.tempos.push({ ticks, bpm: (change.tempo * 60) / change.ticksPerBeat });
+        const last = midi.header.timeSignatures[midi.header.timeSignatures.length - 1];
+        if (last?.timeSignature[0] !== change.beatsPerBar) {
+            midi.header.timeSignatures.push({ ticks, timeSignature: [change.beatsPerBar, 4] });
+        }
+    }
+    midi.header.update();
+
+    const drumNotes = options.percussionToDrums ? invertPercussionMapping() : null;
+    const { channels } = assignMidiChannels(song, options);
+
+    for (const channel of song.channels) {
+        if (channel.kind !== 'note') continue;
+        const asDrums = isDrumChannel(channel, drumNotes);
+        const drumKeys = asDrums ? drumNotes?.get(channel.instrument) : undefined;
+
+        const track = midi.addTrack();
+        track.name = channel.name;
+        track.channel = channels.get(channel) ?? 0;
+        if (!asDrums) track.instrument.number = getInstrumentProgram(channel.instrument);
+        track.addCC({ number: 7, value: clampToRange(channel.volume / 100, 0, 1), ticks: 0 });
+        track.addCC({ number: 10, value: clampToRange((channel.pan + 100) / 200, 0, 1), ticks: 0 });
+
+        const events: { ticks: number; midi: number; velocity: number; bend: number }[] = [];
+        for (const section of channel.sections) {
+            for (const note of section.notes) {
+                const ticks = toMidiTick(tempoMap, ppq, section.startingTick + note.tick);
+                const velocity = clampToRange(note.velocity / 100, 1 / 127, 1);
+                if (asDrums) {
+                    const drum = findDrumNote(drumKeys, note.key);
+                    if (drum !== null) events.push({ ticks, midi: drum, velocity, bend: 0 });
+                    continue;
+                }
+                const semitones = Math.round(note.pitch / 100);
+                events.push({
+                    ticks,
+                    midi: clampToRange(note.key + MIDI_TO_KEY_OFFSET + semitones, 0, 127),
+                    velocity,
+                    bend: clampToRange(
+                        (note.pitch - semitones * 100) / PITCH_BEND_RANGE_CENTS,
+                        -1,
+                        1
+                    )
+                });
+            }
+        }
+        // A key can only sound once per tick in MIDI
+        const seen = new Set<string>();
+        const notes = events
+            .sort((a, b) => a.ticks - b.ticks)
+            .filter(({ ticks, midi: key }) => {
+                const id = `${ticks}:${key}`;
+                if (seen.has(id)) return false;
+                seen.add(id);
+                return true;
+            });
+
+        // Walk backwards to know when each key sounds next
+        const durations: number[] = [];
+        const nextOnset = new Map<number, number>();
+        for (let i = notes.length - 1; i >= 0; i--) {
+            const { ticks, midi: key } = notes[i];
+            durations[i] = Math.min(ppq, (nextOnset.get(key) ?? Number.POSITIVE_INFINITY) - ticks);
+            nextOnset.set(key, ticks);
+        }
+
+        let bend = 0;
+        notes.forEach((event, index) => {
+            if (event.bend !== bend) {
+                // @tonejs/midi reads bends as -1..1 but writes the value as is, so pass the raw
+                // 14-bit offset from center
+                const value = clampToRange(Math.round(event.bend * 8192), -8192, 8191);
+                track.addPitchBend({ ticks: event.ticks, value });
+                bend = event.bend;
+            }
+            track.addNote({
+                midi: event.midi,
+                ticks: event.ticks,
+                durationTicks: durations[index],
+                velocity: event.velocity
+            });
+        });
+    }
+
+    return midi.toArray();
+}
@@ -0,0 +1,133 @@
+import { fromArrayBuffer } from '@nbsjs/core';
+import { describe, expect, it } from 'vitest';
+import { convertNbsSong, NBS_MAX_LOOP_START_TICK, songToNbs } from './nbs';
+import { Instrument, type Channel, type NoteChannel, type Song, type TempoChannel } from './types';
+
+function song(channels: Channel[], extra: Partial<Song> = {}): Song {
+    return {
+        length: 64,
+        tempo: 10,
+        channels,
+        name: 'Test',
+        author: 'Tester',
+        description: '',
+        ...extra
+    };
+}
+
+function pianoChannel(ticks: number[]): NoteChannel {
+    return {
+        kind: 'note',
+        name: 'Piano',
+        sections: [
+            {
+                startingTick: 0,
+                length: 64,
+                notes: ticks.map((tick) => ({ tick, key: 39, velocity: 100, pitch: 0 })),
+                name: 'Main Section'
+            }
+        ],
+        pan: 0,
+        volume: 100,
+        instrument: Instrument.Piano,
+        isMuted: false
+    };
+}
+
+function roundTrip(original: Song): Song {
+    return convertNbsSong(fromArrayBuffer(songToNbs(original) as ArrayBuffer));
+}
+
+function tempoChangesOf(converted: Song) {
+    const tempo = converted.channels.find((channel) => channel.kind === 'tempo') as TempoChannel;
+    return tempo.tempoChanges.map(({ tick, tempo }) => ({ tick, tempo }));
+}
+
+describe('NBS tempo changes', () => {
+    it('keeps tempo changes and their ticks across export and import', () => {
+        const converted = roundTrip(
+            song([
+                {
+                    kind: 'tempo',
+                    name: 'Tempo',
+                    tempoChanges: [
+                        { tick: 0, tempo: 10, ticksPerBeat: 4, beatsPerBar: 4 },
+                        { tick: 13, tempo: 12, ticksPerBeat: 4, beatsPerBar: 4 },
+                        { tick: 37, tempo: 8, ticksPerBeat: 4, beatsPerBar: 4 }
+                    ]
+                },
+                pianoChannel([0, 16, 32])
+            ])
+        );
+
+        expect(tempoChangesOf(converted)).toEqual([
+            { tick: 0, tempo: 10 },
+            { tick: 13, tempo: 12 },
+            { tick: 37, tempo: 8 }
+        ]);
+        expect(converted.tempo).toBe(10);
+    });
+
+    it('does not turn the tempo changer into an instrument or a channel', () => {
+        const converted = roundTrip(
+            song([
+                {
+                    kind: 'tempo',
+                    name: 'Tempo',
+                    tempoChanges: [
+                        { tick: 0, tempo: 10, ticksPerBeat: 4, beatsPerBar: 4 },
+                        { tick: 8, tempo: 5, ticksPerBeat: 4, beatsPerBar: 4 }
+                    ]
+                },
+                pianoChannel([0, 8])
+            ])
+        );
+
+        expect(converted.customInstruments).toBeUndefined();
+        const noteChannels = converted.channels.filter((channel) => channel.kind === 'note');
+        expect(noteChannels).toHaveLength(1);
+        expect((noteChannels[0] as NoteChannel).instrument).toBe(Instrument.Piano);
+    });
+
+    it('writes no tempo changer for a song with a single tempo', () => {
+        const exported = fromArrayBuffer(
+            songToNbs(song([pianoChannel([0, 4])], { tempo: 7.5 })) as ArrayBuffer
+        );
+        expect(exported.instruments.getTotal()).toBe(exported.instruments.firstCustomIndex);
+        expect(tempoChangesOf(convertNbsSong(exported))).toEqual([{ tick: 0, tempo: 7.5 }]);
+    });
+});
+
+describe('NBS metadata', () => {
+    const info = {
+        originalAuthor: 'Composer',
+        importName: 'tune.mid',
+        loop: { enabled: true, startTick: 12, totalLoops: 3 },
+        autoSave: { enabled: true, interval: 5 },
+        minutesSpent: 42,
+        leftClicks: 100,
+        rightClicks: 20,
+        blocksAdded: 80,
+        blocksRemoved: 7
+    };
+
+    it('keeps header fields, layer locks and note panning', () => {
+        const channel = pianoChannel([0, 4]);
+        channel.isLocked = true;
+        channel.sections[0].notes[1].pan = -40;
+        const converted = roundTrip(song([channel], { nbs: info }));
+
+        expect(converted.nbs).toEqual(info);
+        const [imported] = converted.channels.filter(
+            (candidate): candidate is NoteChannel => candidate.kind === 'note'
+        );
+        expect(imported.isLocked).toBe(true);
+        expect(imported.sections[0].notes.map((note) => note.pan ?? 0)).toEqual([0, -40]);
+    });
+
+    it('clamps a loop start past one byte to the latest tick a file can hold', () => {
+        const loop = { ...info.loop, startTick: 300 };
+        const converted = roundTrip(song([pianoChannel([0])], { nbs: { ...info, loop } }));
+        expect(converted.nbs?.loop.startTick).toBe(NBS_MAX_LOOP_START_TICK);
+    });
+});
@@ -1,15 +1,34 @@
 import type { Note as NbsNote, Song as NbsSong } from '@nbsjs/core';
 import { Song as NbsjsSong, Note, toArrayBuffer } from '@nbsjs/core';
 import {
+    BUILT_IN_SAMPLE_KEY,
+    FIRST_CUSTOM_INSTRUMENT,
     Instrument,
+    type CustomInstrument,
+    type NbsSongInfo,
     type Note as AppNote,
     type NoteChannel,
     type Song,
+    type TempoChange,
     type TempoChannel
 } from './types';
 
 export type ChannelSeparationMode = 'per-instrument' | 'per-layer';
 
+/**
+ * Open Note Block Studio marks tempo changes with notes of a custom instrument by this
+ * name. A note's pitch holds the new tempo in BPM at four ticks per beat, i.e. ticks per
+ * second times 15.
+ */
+const TEMPO_CHANGER_NAME = 'Tempo Changer';
+const TEMPO_CHANGER_PITCH_PER_TPS = 15;
+
+/**
+ * Furthest loop start an exported .nbs file holds: @nbsjs/core writes the loop start tick
+ * as a single byte, so later starts are saved as this tick.
+ */
+export const NBS_MAX_LOOP_START_TICK = 255;
+
 /**
  * Convert an @nbsjs/core Song into this app's Song type.
  *
@@ -19,34 +38,40 @@ export type ChannelSeparationMode = 'per-instrument' | 'per-layer';
  */
 export function convertNbsSong(nbs: NbsSong, mode: ChannelSeparationMode = 'per-layer'): Song {
     const length = nbs.getLength();
-    const tempo = nbs.getTempo(); // ticks per second
     const beatsPerBar = clampNumber(nbs.timeSignature ?? 4, 1, 32);
     const ticksPerBeat = 8; // default grid density used by the editor/playback
 
+    const customInstruments = readCustomInstruments(nbs);
     const noteChannels: NoteChannel[] =
-        mode === 'per-instrument' ? buildChannelsPerInstrument(nbs) : buildChannelsPerLayer(nbs);
-
-    // Add a single tempo channel at tick 0 using song's tempo and time signature
+        mode === 'per-instrument'
+            ? buildChannelsPerInstrument(nbs, customInstruments)
+            : buildChannelsPerLayer(nbs, customInstruments);
+
+    // The tempo channel starts with the song's tempo and time signature, followed by the
+    // changes of any tempo changer notes
+    const tempoChanges: TempoChange[] = [
+        { tick: 0, tempo: nbs.getTempo(), ticksPerBeat, beatsPerBar }
+    ];
+    for (const [tick, tempo] of readTempoChangers(nbs)) {
+        const change = { tick, tempo, ticksPerBeat, beatsPerBar };
+        if (tick === 0) tempoChanges[0] = change;
+        else tempoChanges.push(change);
+    }
     const tempoChannel: TempoChannel = {
         kind: 'tempo',
         name: 'Tempo',
-        tempoChanges: [
-            {
-                tick: 0,
-                tempo,
-                ticksPerBeat,
-                beatsPerBar
-            }
-        ]
+        tempoChanges
     };
 
     return {
         length,
-        tempo,
+        tempo: tempoChanges[0].tempo,
         channels: [tempoChannel, ...noteChannels],
         name: nbs.name ?? '',
         author: nbs.author ?? nbs.originalAuthor ?? '',
         description: nbs.description ?? '',
+        customInstruments: customInstruments.length ? customInstruments : undefined,
+        nbs: readSongInfo(nbs),
         metadata: {
             version: '1.0.0',
             format: 'nbs-import',
@@ -57,14 +82,76 @@ export function convertNbsSong(nbs: NbsSong, mode: ChannelSeparationMode = 'per-
     };
 }
 
-function buildChannelsPerInstrument(nbs: NbsSong): NoteChannel[] {
+function readSongInfo(nbs: NbsSong): NbsSongInfo {
+    return {
+        originalAuthor: nbs.originalAuthor ?? '',
+        importName: nbs.importName ?? '',
+        loop: {
+            enabled: nbs.loop.enabled,
+            startTick: nbs.loop.startTick,
+            totalLoops: nbs.loop.totalLoops
+        },
+        autoSave: { enabled: nbs.autoSave.enabled, interval: nbs.autoSave.interval },
+        minutesSpent: nbs.minutesSpent,
+        leftClicks: nbs.leftClicks,
+        rightClicks: nbs.rightClicks,
+        blocksAdded: nbs.blocksAdded,
+        blocksRemoved: nbs.blocksRemoved
+    };
+}
+
+/**
+ * NBS files only reference custom sounds by path, so imported custom instruments start
+ * without sample data until the user attaches one.
+ */
+function readCustomInstruments(nbs: NbsSong): CustomInstrument[] {
+    const customInstruments: CustomInstrument[] = [];
+    for (const [id, instrument] of nbs.instruments) {
+        if (id < nbs.instruments.firstCustomIndex || isTempoChanger(nbs, id)) continue;
+        const file = (instrument.soundFile ?? '').split(/[\\/]/).pop() || `custom_${id}.ogg`;
+        customInstruments.push({
+            id: FIRST_CUSTOM_INSTRUMENT + (id - nbs.instruments.firstCustomIndex),
+            name: instrument.name || file.replace(/\.[^.]+$/, ''),
+            baseKey: (instrument.key ?? BUILT_IN_SAMPLE_KEY + 12) - 12, // NBS keys are one octave up
+            file
+        });
+    }
+    return customInstruments;
+}
+
+function isTempoChanger(nbs: NbsSong, id: number): boolean {
+    if (id < nbs.instruments.firstCustomIndex) return false;
+    const name = nbs.instruments.all[id]?.name ?? '';
+    return name.trim().toLowerCase() === TEMPO_CHANGER_NAME.toLowerCase();
+}
+
+/**
+ * Tempos set by tempo changer notes, sorted by tick. When several layers change the tempo
+ * on the same tick, the last layer wins.
+ */
+function readTempoChangers(nbs: NbsSong): Array<[tick: number, tempo: number]> {
+    const tempos = new Map<number, number>();
+    for (const layer of nbs.layers.all) {
+        for (const [t, n] of layer.notes as Iterable<[number, NbsNote]>) {
+            if (!isTempoChanger(nbs, n.instrument ?? 0)) continue;
+            const tempo = Math.abs(n.pitch ?? 0) / TEMPO_CHANGER_PITCH_PER_TPS;
+            if (tempo > 0) tempos.set(t, tempo);
+        }
+    }
+    return Array.from(tempos).sort((a, b) => a[0] - b[0]);
+}
+
+function buildChannelsPerInstrument(
+    nbs: NbsSong,
+    customInstruments: CustomInstrument[]
+): NoteChannel[] {
     // instrumentId -> aggregated notes across all layers
     const byInstrument = new Map<number, Array<{ tick: number; note: AppNote }>>();
 
     for (const layer of nbs.layers.all) {
         for (const [t, n] of layer.notes as Iterable<[number, NbsNote]>) {
-            const inst = mapBuiltInInstrument(n.instrument ?? 0);
-            if (inst === null) continue; // skip unsupported custom instruments
+            const inst = mapInstrument(nbs, n.instrument ?? 0);
+            if (inst === null) continue; // skip unknown instrument ids
 
             const list = byInstrument.get(inst) ?? [];
             list.push({ tick: t, note: mapNote(n) });
@@ -87,9 +174,10 @@ function buildChannelsPerInstrument(nbs: NbsSong): NoteChannel[] {
 
         channels.push({
             kind: 'note',
-            name: getInstrumentName(inst as Instrument),
+            name: getInstrumentName(inst, customInstruments),
             instrument: inst as Instrument,
             pan: 0,
+            volume: 100,
             isMuted: false,
             sections
         });
@@ -100,14 +188,14 @@ function buildChannelsPerInstrument(nbs: NbsSong): NoteChannel[] {
     return channels;
 }
 
-function buildChannelsPerLayer(nbs: NbsSong): NoteChannel[] {
+function buildChannelsPerLayer(nbs: NbsSong, customInstruments: CustomInstrument[]): NoteChannel[] {
     const channels: NoteChannel[] = [];
 
     nbs.layers.all.forEach((layer, layerIdx) => {
         // Group this layer's notes by instrument
         const groups = new Map<number, Array<{ tick: number; note: AppNote }>>();
         for (const [t, n] of layer.notes as Iterable<[number, NbsNote]>) {
-            const inst = mapBuiltInInstrument(n.instrument ?? 0);
+            const inst = mapInstrument(nbs, n.instrument ?? 0);
             if (inst === null) continue;
             const list = groups.get(inst) ?? [];
             list.push({ tick: t, note: mapNote(n) });
@@ -132,10 +220,14 @@ function buildChannelsPerLayer(nbs: NbsSong): NoteChannel[] {
 
             channels.push({
                 kind: 'note',
-                name: multi ? `${layerName} (${getInstrumentName(inst as Instrument)})` : layerName,
+                name: multi
+                    ? `${layerName} (${getInstrumentName(inst, customInstruments)})`
+                    : layerName,
                 instrument: inst as Instrument,
                 pan: clampNumber(layer.stereo ?? 0, -100, 100),
+                volume: clampNumber(layer.volume ?? 100, 0, 100),
                 isMuted: false,
+                isLocked: layer.isLocked || undefined,
                 sections
             });
 
@@ -147,23 +239,34 @@ function buildChannelsPerLayer(nbs: NbsSong): NoteChannel[] {
 }
 
 function mapNote(n: NbsNote): AppNote {
-    return {
+    const note: AppNote = {
         tick: 0, // will be set by caller
         key: n.key - 12, // shift one octave down to fit app format
         velocity: n.velocity,
         pitch: n.pitch
     };
+    if (n.panning) note.pan = clampNumber(n.panning, -100, 100);
+    return note;
 }
 
-function getInstrumentName(i: Instrument): string {
+function getInstrumentName(i: number, customInstruments: CustomInstrument[]): string {
+    const custom = customInstruments.find((c) => c.id === i);
+    if (custom) return custom.name;
     // Try to use enum reverse-lookup where available
-    const name = (Instrument as unknown as Record<number, string>)[i as unknown as number];
+    const name = (Instrument as unknown as Record<number, string>)[i];
     return name ?? `Instrument ${i}`;
 }
 
-function mapBuiltInInstrument(id: number): Instrument | null {
-    if (Number.isFinite(id) && id >= 0 && id <= 15) return id as Instrument;
-    return null;
+/**
+ * Map an NBS instrument id to the app's id space: built-ins keep their id and custom
+ * instruments are numbered from FIRST_CUSTOM_INSTRUMENT in file order.
+ */
+function mapInstrument(nbs: NbsSong, id: number): number | null {
+    if (!Number.isFinite(id) || id < 0 || isTempoChanger(nbs, id)) return null;
+    const firstCustom = nbs.instruments.firstCustomIndex;
+    if (id < firstCustom) return id <= 15 ? id : null;
+    if (id >= nbs.instruments.getTotal()) return null;
+    return FIRST_CUSTOM_INSTRUMENT + (id - firstCustom);
 }
 
 function clampNumber(n: number, min: number, max: number): number {
@@ -184,19 +287,41 @@ export function songToNbs(song: Song): ArrayBufferLike {
     nbsSong.name = song.name;
     nbsSong.author = song.author;
     nbsSong.description = song.description;
+    if (song.nbs) writeSongInfo(nbsSong, song.nbs);
 
-    // Find the first tempo channel and use its first tempo event
+    // The song tempo is the one in effect at tick 0; later changes go to a tempo changer layer
     const tempoChannel = song.channels.find((ch) => ch.kind === 'tempo') as
         | TempoChannel
         | undefined;
-    const firstTempoEvent = tempoChannel?.tempoChanges?.[0];
-    const tempo = firstTempoEvent?.tempo ?? song.tempo;
-    nbsSong.setTempo(tempo);
+    const tempoChanges = [...(tempoChannel?.tempoChanges ?? [])].sort((a, b) => a.tick - b.tick);
+    const initialTempo = tempoChanges[0]?.tick === 0 ? tempoChanges[0].tempo : song.tempo;
+    nbsSong.setTempo(initialTempo);
+    nbsSong.timeSignature = clampNumber(tempoChanges[0]?.beatsPerBar ?? 4, 1, 32);
+
+    // Custom instruments become consecutive NBS instruments after the built-ins. NBS only
+    // stores the sound file name, so the samples themselves stay in the .nbx.
+    const nbsInstrumentIds = new Map<number, number>();
+    const customInstruments = [...(song.customInstruments ?? [])].sort((a, b) => a.id - b.id);
+    customInstruments.forEach((custom, index) => {
+        nbsSong.instruments.create({
+            name: custom.name,
+            soundFile: custom.file,
+            key: clampNumber(custom.baseKey + 12, 0, 87),
+            pressKey: true
+        });
+        nbsInstrumentIds.set(custom.id, nbsSong.instruments.firstCustomIndex + index);
+    });
 
     // Process note channels
     const noteChannels = song.channels.filter((ch) => ch.kind === 'note') as NoteChannel[];
 
     noteChannels.forEach((channel) => {
+        const instrumentId =
+            channel.instrument < FIRST_CUSTOM_INSTRUMENT
+                ? channel.instrument
+                : nbsInstrumentIds.get(channel.instrument);
+        if (instrumentId === undefined) return; // custom instrument no longer in the song
+
         // Collect all notes from all sections with their absolute ticks
         const allNotes: Array<{ tick: number; note: AppNote }> = [];
         channel.sections.forEach((section) => {
@@ -226,17 +351,19 @@ export function songToNbs(song: Song): ArrayBufferLike {
         for (let i = 0; i < maxSimultaneous; i++) {
             const layer = nbsSong.layers.create();
             layer.name = maxSimultaneous > 1 ? `${channel.name} (${i + 1})` : channel.name;
-            layer.volume = 100; // Default volume
+            layer.volume = clampNumber(channel.volume ?? 100, 0, 100);
             layer.stereo = clampNumber(channel.pan, -100, 100);
+            layer.isLocked = channel.isLocked ?? false;
             layers.push(layer);
         }
 
         // Distribute notes across layers
         notesByTick.forEach((notes, tick) => {
             notes.forEach((note, index) => {
-                const nbsNote = new Note(channel.instrument, {
+                const nbsNote = new Note(instrumentId, {
                     key: note.key + 12, // shift one octave up to match NBS format
                     velocity: note.velocity,
+                    panning: clampNumber(note.pan ?? 0, -100, 100),
                     pitch: note.pitch
                 });
                 layers[index].notes.set(tick, nbsNote);
@@ -244,9 +371,58 @@ export function songToNbs(song: Song): ArrayBufferLike {
         });
     });
 
+    writeTempoChangers(nbsSong, tempoChanges, initialTempo);
+
     return toArrayBuffer(nbsSong);
 }
 
+function writeSongInfo(nbsSong: NbsjsSong, info: NbsSongInfo) {
+    nbsSong.originalAuthor = info.originalAuthor || undefined;
+    nbsSong.importName = info.importName || undefined;
+    Object.assign(nbsSong.loop, {
+        ...info.loop,
+        startTick: clampNumber(info.loop.startTick, 0, NBS_MAX_LOOP_START_TICK)
+    });
+    Object.assign(nbsSong.autoSave, info.autoSave);
+    nbsSong.minutesSpent = info.minutesSpent;
+    nbsSong.leftClicks = info.leftClicks;
+    nbsSong.rightClicks = info.rightClicks;
+    nbsSong.blocksAdded = info.blocksAdded;
+    nbsSong.blocksRemoved = info.blocksRemoved;
+}
+
+/**
+ * Add a tempo changer instrument and one layer with a note on every tick the tempo changes
+ * after the start, so the changes survive in Open Note Block Studio.
+ */
+function writeTempoChangers(nbsSong: NbsjsSong, tempoChanges: TempoChange[], initialTempo: number) {
+    const tempos = new Map<number, number>();
+    let previous = initialTempo;
+    for (const { tick, tempo } of tempoChanges) {
+        if (tick <= 0 || !(tempo > 0) || tempo === previous) continue;
+        tempos.set(tick, tempo);
+        previous = tempo;
+    }
+    if (tempos.size === 0) return;
+
+    nbsSong.instruments.create({
+        name: TEMPO_CHANGER_NAME,
+        soundFile: '',
+        key: BUILT_IN_SAMPLE_KEY + 12,
+        pressKey: false
+    });
+    const instrumentId = nbsSong.instruments.getTotal() - 1;
+    const layer = nbsSong.layers.create();
+    layer.name = TEMPO_CHANGER_NAME;
+    for (const [tick, tempo] of tempos) {
+        const pitch = clampNumber(Math.round(tempo * TEMPO_CHANGER_PITCH_PER_TPS), 1, 32767);
+        layer.notes.set(
+            tick,
+            new Note(instrumentId, { key: BUILT_IN_SAMPLE_KEY + 12, velocity: 100, pitch })
+        );
+    }
+}
+
 /**
  * Download an app Song as a .nbs file in the browser.
  *
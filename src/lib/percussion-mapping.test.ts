@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import {
+    clonePercussionMapping,
+    DEFAULT_PERCUSSION_PRESET,
+    normalizePercussionPreset
+} from './percussion-mapping';
+import { Instrument } from './types';
+
+describe('percussion presets', () => {
+    it('keeps valid entries and trims the name', () => {
+        const preset = normalizePercussionPreset({
+            name: '  Rock kit ',
+            mapping: {
+                36: { instrument: Instrument.BassDrum, key: 27 },
+                38: { instrument: Instrument.SnareDrum, key: 29, extra: true }
+            }
+        });
+        expect(preset).toEqual({
+            name: 'Rock kit',
+            mapping: {
+                36: { instrument: Instrument.BassDrum, key: 27 },
+                38: { instrument: Instrument.SnareDrum, key: 29 }
+            }
+        });
+    });
+
+    it('drops entries outside the MIDI and key ranges or with unknown instruments', () => {
+        const preset = normalizePercussionPreset({
+            name: 'Kit',
+            mapping: {
+                128: { instrument: Instrument.BassDrum, key: 27 },
+                36.5: { instrument: Instrument.BassDrum, key: 27 },
+                40: { instrument: 99, key: 27 },
+                41: { instrument: Instrument.BassDrum, key: 88 },
+                42: { instrument: Instrument.SnareDrum, key: 1.5 },
+                43: null,
+                44: { instrument: Instrument.Click, key: 0 }
+            }
+        });
+        expect(preset?.mapping).toEqual({ 44: { instrument: Instrument.Click, key: 0 } });
+    });
+
+    it('rejects values that are not presets', () => {
+        expect(normalizePercussionPreset(null)).toBeNull();
+        expect(normalizePercussionPreset('Kit')).toBeNull();
+        expect(normalizePercussionPreset({ name: '  ', mapping: {} })).toBeNull();
+        expect(normalizePercussionPreset({ name: 'Kit' })).toBeNull();
+    });
+
+    it('reads back the built-in preset unchanged', () => {
+        const json = JSON.parse(JSON.stringify(DEFAULT_PERCUSSION_PRESET));
+        expect(normalizePercussionPreset(json)).toEqual(DEFAULT_PERCUSSION_PRESET);
+    });
+
+    it('clones mappings so edits leave the original alone', () => {
+        const copy = clonePercussionMapping(DEFAULT_PERCUSSION_PRESET.mapping);
+        copy[38].key += 1;
+        expect(copy[38].key).not.toBe(DEFAULT_PERCUSSION_PRESET.mapping[38].key);
+    });
+});
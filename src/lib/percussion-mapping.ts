@@ -1,5 +1,8 @@
+import { browser } from '$app/environment';
 import type { PercussionMapping } from './midi';
-import { Instrument, NOTEBLOCK_LOWEST_KEY_IN_MIDI } from './types';
+import { ALL_INSTRUMENTS, Instrument, NOTEBLOCK_LOWEST_KEY_IN_MIDI } from './types';
+
+const STORAGE_KEY = 'noteblock-studio:percussion-presets';
 
 /**
  * Pitch conversion rule from Open Noteblock Studio -> your Noteblock MIDI range.
@@ -94,8 +97,140 @@ export const PERCUSSION_MAPPING: PercussionMapping = {
     84: { instrument: Instrument.Bell, key: p(15) }, // Bell Tree
     85: { instrument: Instrument.Click, key: p(21) }, // Castanets
     86: { instrument: Instrument.BassDrum, key: p(14) }, // Mute Surdo
-    87: { instrument: Instrument.BassDrum, key: p(7) }, // Open Surdo
+    87: { instrument: Instrument.BassDrum, key: p(7) } // Open Surdo
+};
+
+/** General MIDI percussion note names, for the drum notes `PERCUSSION_MAPPING` covers. */
+export const GM_DRUM_NAMES: Record<number, string> = {
+    24: 'Cutting Noise',
+    25: 'Snare Roll',
+    26: 'Finger Snap',
+    27: 'High Q',
+    28: 'Slap',
+    29: 'Scratch Push',
+    30: 'Scratch Pull',
+    31: 'Sticks',
+    32: 'Square Click',
+    33: 'Metronome Click',
+    34: 'Metronome Bell',
+    35: 'Bass Drum 2',
+    36: 'Bass Drum 1',
+    37: 'Side Stick',
+    38: 'Snare Drum 1',
+    39: 'Hand Clap',
+    40: 'Snare Drum 2',
+    41: 'Low Tom 2',
+    42: 'Closed Hi-hat',
+    43: 'Low Tom 1',
+    44: 'Pedal Hi-hat',
+    45: 'Mid Tom 2',
+    46: 'Open Hi-hat',
+    47: 'Mid Tom 1',
+    48: 'High Tom 2',
+    49: 'Crash Cymbal 1',
+    50: 'High Tom 1',
+    51: 'Ride Cymbal 1',
+    52: 'Chinese Cymbal',
+    53: 'Ride Bell',
+    54: 'Tambourine',
+    55: 'Splash Cymbal',
+    56: 'Cowbell',
+    57: 'Crash Cymbal 2',
+    58: 'Vibraslap',
+    59: 'Ride Cymbal 2',
+    60: 'High Bongo',
+    61: 'Low Bongo',
+    62: 'Mute High Conga',
+    63: 'Open High Conga',
+    64: 'Low Conga',
+    65: 'High Timbale',
+    66: 'Low Timbale',
+    67: 'High Agogo',
+    68: 'Low Agogo',
+    69: 'Cabasa',
+    70: 'Maracas',
+    71: 'Short Whistle',
+    72: 'Long Whistle',
+    73: 'Short Guiro',
+    74: 'Long Guiro',
+    75: 'Claves',
+    76: 'High Wood Block',
+    77: 'Low Wood Block',
+    78: 'Mute Cuica',
+    79: 'Open Cuica',
+    80: 'Mute Triangle',
+    81: 'Open Triangle',
+    82: 'Shaker',
+    83: 'Jingle Bell',
+    84: 'Bell Tree',
+    85: 'Castanets',
+    86: 'Mute Surdo',
+    87: 'Open Surdo'
+};
+
+/**
+ * A named percussion mapping saved in the browser. Names are unique, so saving under an
+ * existing name replaces that preset.
+ */
+export interface PercussionPreset {
+    name: string;
+    mapping: PercussionMapping;
+}
 
-    // Extra SFX from the same table (non-standard GM range often seen below 35):
-    85_000: { instrument: Instrument.Flute, key: p(34) } // (example placeholder if you later add more)
+export const DEFAULT_PERCUSSION_PRESET: PercussionPreset = {
+    name: 'General MIDI (built-in)',
+    mapping: PERCUSSION_MAPPING
 };
+
+/** Copy of a mapping, so edits to it leave presets untouched. */
+export function clonePercussionMapping(mapping: PercussionMapping): PercussionMapping {
+    return Object.fromEntries(
+        Object.entries(mapping).map(([midi, target]) => [midi, { ...target }])
+    );
+}
+
+/**
+ * Check a parsed preset, e.g. from storage or an imported JSON file. Entries outside the
+ * MIDI note range or with unknown instruments are dropped.
+ */
+export function normalizePercussionPreset(value: unknown): PercussionPreset | null {
+    if (!value || typeof value !== 'object') return null;
+    const { name, mapping } = value as Partial<PercussionPreset>;
+    if (typeof name !== 'string' || !name.trim() || !mapping || typeof mapping !== 'object') {
+        return null;
+    }
+    const normalized: PercussionMapping = {};
+    for (const [midi, target] of Object.entries(mapping)) {
+        const note = Number(midi);
+        if (!Number.isInteger(note) || note < 0 || note > 127) continue;
+        if (!target || !ALL_INSTRUMENTS.includes(target.instrument)) continue;
+        if (!Number.isInteger(target.key) || target.key < 0 || target.key > 87) continue;
+        normalized[note] = { instrument: target.instrument, key: target.key };
+    }
+    return { name: name.trim(), mapping: normalized };
+}
+
+export function loadPercussionPresets(): PercussionPreset[] {
+    if (!browser) return [];
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return [];
+        const parsed: unknown = JSON.parse(raw);
+        if (!Array.isArray(parsed)) return [];
+        return parsed
+            .map(normalizePercussionPreset)
+            .filter((preset): preset is PercussionPreset => preset !== null);
+    } catch (error) {
+        console.error('Failed to load percussion presets from localStorage', error);
+        return [];
+    }
+}
+
+export function savePercussionPresets(presets: PercussionPreset[]): void {
+    if (!browser) return;
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+    } catch (error) {
+        console.error('Failed to save percussion presets to localStorage', error);
+    }
+}
@@ -145,7 +145,7 @@ export class PianoRollMouseController {
                 const channel = player.song?.channels[context.channelIndex];
                 if (channel && channel.kind === 'note') {
                     try {
-                        playNote(existing, channel.instrument);
+                        playNote(existing, channel);
                     } catch {}
                 }
             } else {
@@ -162,7 +162,7 @@ export class PianoRollMouseController {
                     const channel = player.song?.channels[context.channelIndex];
                     if (channel && channel.kind === 'note') {
                         try {
-                            playNote(created, channel.instrument);
+                            playNote(created, channel);
                         } catch {}
                     }
                 }
@@ -187,7 +187,7 @@ export class PianoRollMouseController {
                 const channel = player.song?.channels[context.channelIndex];
                 if (channel && channel.kind === 'note') {
                     try {
-                        playNote(note, channel.instrument);
+                        playNote(note, channel);
                     } catch {}
                 }
             }
@@ -373,7 +373,7 @@ export class PianoRollMouseController {
                     const channel = player.song?.channels[context.channelIndex];
                     if (channel && channel.kind === 'note') {
                         try {
-                            playNote(firstNote, channel.instrument);
+                            playNote(firstNote, channel);
                         } catch {}
                     }
                 }
@@ -164,6 +164,8 @@ export class PianoRollState {
 
     loopModeButtonClass = $derived.by(() => {
         switch (player.loopMode) {
+            case LoopMode.Region:
+                return 'bg-rose-600 text-white hover:bg-rose-600/80 dark:hover:bg-rose-600/80 hover:text-white';
             case LoopMode.Selection:
                 return 'bg-purple-600 text-white hover:bg-purple-600/80 dark:hover:bg-purple-600/80 hover:text-white';
             case LoopMode.Song:
@@ -176,6 +178,10 @@ export class PianoRollState {
 
     loopModeLabel = $derived.by(() => {
         switch (player.loopMode) {
+            case LoopMode.Region:
+                return player.loopRepeats === null
+                    ? 'Loop: Region'
+                    : `Loop: Region (${player.loopRepeats}×)`;
             case LoopMode.Selection:
                 return 'Loop: Selection';
             case LoopMode.Song:
@@ -249,6 +255,9 @@ export class PianoRollState {
                 player.setLoopMode(LoopMode.Selection);
                 break;
             case LoopMode.Selection:
+                player.setLoopMode(LoopMode.Region);
+                break;
+            case LoopMode.Region:
             default:
                 player.setLoopMode(LoopMode.Off);
                 break;
@@ -16,6 +16,8 @@ import {
     createSetTempoAction,
     createToggleMuteAction,
     createUpdateNoteAction,
+    createSetCustomInstrumentsAction,
+    createUpdateMixingAction,
     createUpdateNoteChannelAction,
     createUpdateNoteSectionAction,
     createUpdateNotesAction,
@@ -24,219 +26,67 @@ import {
     type NoteRemovalChange,
     type NoteUpdateChange
 } from './history';
+import {
+    loadEditorPreferences,
+    saveEditorPreferences,
+    type EditorPreferences
+} from './editor-preferences';
+import { getInstrumentName } from './custom-instruments';
+import type { InstrumentSample } from './engine/audio-graph';
+import type { MetronomeSettings } from './engine/metronome';
+import { renderOffline, type OfflineRenderOptions } from './engine/offline-renderer';
+import { SongModel } from './engine/song-model';
+import { LoopMode, Transport } from './engine/transport.svelte';
+import { WebAudioEngine } from './engine/web-audio-engine';
+import {
+    clearResourcePack,
+    loadResourcePack,
+    saveResourcePack,
+    type ResourcePack
+} from './resource-pack';
+import { deleteCustomSample, restoreCustomSample } from './sample-store';
 import { saveSongToStorage } from './song-storage';
 import {
+    DEFAULT_SONG_MIXING,
+    DEFAULT_SONG_TRANSPORT,
     Instrument,
+    type CustomInstrument,
     type Note,
     type NoteChannel,
     type NoteSection,
     type Song,
-    type TempoChange,
+    type SongMixing,
+    type SongTransport,
     type TempoChannel
 } from './types';
 import { generateChannelId } from './utils';
 
+export { emitNotePlayed } from './engine/html-audio';
+export type { OfflineRenderOptions } from './engine/offline-renderer';
+export { LoopMode, MAX_PLAYBACK_RATE, MIN_PLAYBACK_RATE } from './engine/transport.svelte';
+
 type HistoryCallOptions = {
     skipHistory?: boolean;
 };
 
+// Channel fields that do not affect the note indexes, so updating them skips rescheduling
+const UNINDEXED_CHANNEL_KEYS = new Set<keyof NoteChannel>(['volume', 'pan', 'name', 'effects']);
+
 type CreateNoteChannelOptions = HistoryCallOptions & {
     channel?: NoteChannel;
     index?: number;
 };
 
-/**
- * Loop behavior for playback.
- */
-export enum LoopMode {
-    Off = 'off',
-    Song = 'song',
-    Selection = 'selection'
-}
-
-const soundMap: Record<Instrument, HTMLAudioElement> = browser
-    ? {
-          [Instrument.Banjo]: new Audio('/notes/banjo.ogg'),
-          [Instrument.DoubleBass]: new Audio('/notes/bass.ogg'),
-          [Instrument.BassDrum]: new Audio('/notes/bd.ogg'),
-          [Instrument.Bell]: new Audio('/notes/bell.ogg'),
-          [Instrument.Bit]: new Audio('/notes/bit.ogg'),
-          [Instrument.CowBell]: new Audio('/notes/cow_bell.ogg'),
-          [Instrument.Didgeridoo]: new Audio('/notes/didgeridoo.ogg'),
-          [Instrument.Flute]: new Audio('/notes/flute.ogg'),
-          [Instrument.Guitar]: new Audio('/notes/guitar.ogg'),
-          [Instrument.Piano]: new Audio('/notes/harp.ogg'),
-          [Instrument.Click]: new Audio('/notes/hat.ogg'),
-          [Instrument.Chime]: new Audio('/notes/icechime.ogg'),
-          [Instrument.IronXylophone]: new Audio('/notes/iron_xylophone.ogg'),
-          [Instrument.Pling]: new Audio('/notes/pling.ogg'),
-          [Instrument.SnareDrum]: new Audio('/notes/snare.ogg'),
-          [Instrument.Xylophone]: new Audio('/notes/xylobone.ogg')
-      }
-    : ({} as Record<Instrument, HTMLAudioElement>);
-
-const metronomeSounds: Record<'high' | 'low', HTMLAudioElement> = browser
-    ? {
-          high: new Audio('/metronome.wav'),
-          low: new Audio('/metronome.wav')
-      }
-    : ({} as Record<'high' | 'low', HTMLAudioElement>);
-
-function configureAudioElement(el: HTMLAudioElement): void {
-    el.preload = 'auto';
-    (el as any).preservesPitch = false;
-    (el as any).mozPreservesPitch = false;
-    (el as any).webkitPreservesPitch = false;
-}
-
-function configureBaseAudio(): void {
-    if (!browser) return;
-    for (const instKey of Object.keys(soundMap)) {
-        const inst = Number(instKey) as Instrument;
-        const el = soundMap[inst];
-        if (!el) continue;
-        configureAudioElement(el);
-    }
-    // Metronome base config
-    configureAudioElement(metronomeSounds.high);
-    configureAudioElement(metronomeSounds.low);
-}
-
-const audioPool: Record<Instrument, HTMLAudioElement[]> = browser
-    ? ({} as Record<Instrument, HTMLAudioElement[]>)
-    : ({} as Record<Instrument, HTMLAudioElement[]>);
-
-const MAX_POOL_SIZE = 16;
-
-function createPooledAudio(instrument: Instrument): HTMLAudioElement {
-    const base = soundMap[instrument];
-    const node = base.cloneNode(true) as HTMLAudioElement;
-    node.preload = 'auto';
-    (node as any).preservesPitch = false;
-    (node as any).mozPreservesPitch = false;
-    (node as any).webkitPreservesPitch = false;
-    return node;
-}
-
-function resetAudioElement(el: HTMLAudioElement): void {
-    try {
-        el.currentTime = 0;
-    } catch {}
-}
-
-function getPooledAudio(instrument: Instrument): HTMLAudioElement {
-    if (!browser) return {} as HTMLAudioElement;
-    const pool = (audioPool[instrument] ||= []);
-    for (const el of pool) {
-        if (el.ended || el.paused) {
-            resetAudioElement(el);
-            return el;
-        }
-    }
-    if (pool.length < MAX_POOL_SIZE) {
-        const el = createPooledAudio(instrument);
-        pool.push(el);
-        return el;
-    }
-    const reused = pool[0];
-    resetAudioElement(reused);
-    return reused;
-}
-
-configureBaseAudio();
-
-function connectWithReverbGlobal(
-    source: AudioBufferSourceNode,
-    gainValue: number,
-    ctx: AudioContext,
-    reverbNode: ConvolverNode | null,
-    reverbGain: GainNode | null,
-    dryGain: GainNode | null,
-    masterGain: GainNode | null
-): void {
-    const gain = ctx.createGain();
-    gain.gain.value = gainValue;
-
-    // Route through reverb chain if available, otherwise direct to master
-    if (reverbNode && reverbGain && dryGain) {
-        source.connect(gain);
-        // Split signal: dry path and wet path
-        gain.connect(dryGain); // Dry signal
-        gain.connect(reverbNode); // Wet signal through reverb
-    } else {
-        source.connect(gain).connect(masterGain ?? ctx.destination);
-    }
-}
-
-function calculatePlaybackRate(key: number, pitch: number): number {
-    const baseSampleKey = 33;
-    const keyOffset = key - baseSampleKey;
-    const pitchOffset = pitch / 1200;
-    return Math.pow(2, (keyOffset + pitchOffset) / 12);
-}
-
-function startAudioSource(src: AudioBufferSourceNode, when?: number): void {
-    try {
-        src.start(when);
-    } catch {
-        try {
-            src.start();
-        } catch {}
-    }
-}
-
-type ScheduledAudioEvent = {
-    type: 'audio';
-    node: AudioBufferSourceNode;
-    when: number;
-    tick: number;
-};
-
-type ScheduledHtmlEvent = {
-    type: 'html';
-    timeout: ReturnType<typeof setTimeout>;
-    when: number;
-    tick: number;
-};
-
-type ScheduledEvent = ScheduledAudioEvent | ScheduledHtmlEvent;
-
-async function playWithHtmlAudio(
-    instrument: Instrument,
-    key: number,
-    velocity: number,
-    pitch: number
-) {
-    const audio = getPooledAudio(instrument);
-    audio.volume = (velocity / 100) * 0.5;
-
-    audio.playbackRate = calculatePlaybackRate(key, pitch);
-
-    return await audio.play();
-}
-
-// Emit DOM events when notes play so the UI can highlight
-export function emitNotePlayed(noteId: string, durationMs = 120) {
-    if (!browser) return;
-    try {
-        document.dispatchEvent(new CustomEvent('noteplayed', { detail: { id: noteId } }));
-    } catch {}
-    setTimeout(() => {
-        try {
-            document.dispatchEvent(new CustomEvent('noteended', { detail: { id: noteId } }));
-        } catch {}
-    }, durationMs);
-}
-
 /**
  * Play a single Note using the mapped instrument sample.
  *
- * Delegates to `playSound` using the fields from the provided `Note`.
+ * Plays through the channel's mixer strip (volume and pan) when Web Audio is ready,
+ * otherwise delegates to `playSound` using the fields from the provided `Note`.
  * See `src/lib/noteblocks.ts` for the `Note` shape and value ranges
  * (e.g., `key` 0–87, `velocity` 0–100, `pitch` in cents).
  */
-export async function playNote(note: Note, instrument: Instrument) {
-    return await playSound(instrument, note.key, note.velocity, note.pitch);
+export async function playNote(note: Note, channel: NoteChannel) {
+    return await player.audio.playPreview(note, channel);
 }
 
 /**
@@ -246,6 +96,7 @@ export async function playNote(note: Note, instrument: Instrument) {
  * - `key`: Piano key index 0–87 where 0=A0 and 87=C8. Used to derive playback rate.
  * - `velocity`: Loudness 0–100. Scaled to audio volume (max ~0.5).
  * - `pitch`: Fine detune in cents (−1200 to 1200). Applied to playback rate.
+ * - `pan`: Stereo position −100 (left) to 100 (right). Ignored by the HTML Audio fallback.
  *
  * Returns a promise from `HTMLAudioElement.play()` resolving when playback starts.
  */
@@ -253,147 +104,145 @@ export async function playSound(
     instrument: Instrument,
     key: number,
     velocity: number,
-    pitch: number
+    pitch: number,
+    pan = 0
 ) {
-    if (!browser) return;
-
-    // Early return to HTML Audio if Web Audio reverb not available
-    if (!player.audioCtx || !player.reverbNode || !player.reverbGain || !player.dryGain) {
-        return await playWithHtmlAudio(instrument, key, velocity, pitch);
-    }
-
-    try {
-        // Use Web Audio API for playback with reverb
-        const buf = player.buffers.get(instrument);
-        if (!buf) {
-            return await playWithHtmlAudio(instrument, key, velocity, pitch);
-        }
-
-        const ctx = player.audioCtx;
-        const src = ctx.createBufferSource();
-        src.buffer = buf;
-
-        // Compute playback rate
-        const baseSampleKey = 33;
-        const keyOffset = key - baseSampleKey;
-        const pitchOffset = pitch / 1200;
-        src.playbackRate.value = Math.pow(2, (keyOffset + pitchOffset) / 12);
-
-        connectWithReverbGlobal(
-            src,
-            (velocity / 100) * 0.5,
-            ctx,
-            player.reverbNode,
-            player.reverbGain,
-            player.dryGain,
-            player.masterGain
-        );
-
-        return src.start();
-    } catch {
-        // Fall through to HTML Audio fallback
-        return await playWithHtmlAudio(instrument, key, velocity, pitch);
-    }
+    return await player.audio.playSound(instrument, key, velocity, pitch, pan);
 }
 
+/**
+ * The editor's player: song editing with undo history and persistence, on top of the
+ * headless song model and transport (see `engine/`), playing through Web Audio.
+ */
 export class Player {
-    // TODO: Refactor this class into several classes that have their own responsibilities.
-    private _isPlaying = $state(false);
-    private _currentTick = $state(0);
-    private _tempo = $state(20);
-    private _ticksPerBeat = $state(10);
-    private _beatsPerBar = $state(4);
-    private _metronomeEnabled = $state(false);
-
-    // Looping and selection state
-    private _loopMode = $state<LoopMode>(LoopMode.Off);
-    private _selectionStart = $state<number | null>(null);
-    private _selectionEnd = $state<number | null>(null);
-
-    // UI tick updater (no audio emission)
-    private interval: ReturnType<typeof setTimeout> | null = null;
-    private _nextTickAt = 0;
-
-    // Web Audio lookahead scheduler
-    private _audioCtx: AudioContext | null = null;
-    private _buffers: Map<Instrument, AudioBuffer> = new Map();
-    private _metronomeBuffer: AudioBuffer | null = null;
-    private _masterGain: GainNode | null = null;
-    private _reverbNode: ConvolverNode | null = null;
-    private _reverbGain: GainNode | null = null;
-    private _dryGain: GainNode | null = null;
-    private _schedulerTimer: ReturnType<typeof setInterval> | null = null;
-    private _scheduleAheadSec = 0.15; // seconds to schedule ahead
-    private _schedulerIntervalMs = 25; // how often to run scheduler
-    private _nextTickToSchedule = 0;
-    private _nextNoteTime = 0; // in audioCtx.currentTime seconds
-    private _muteTickAudio = false; // suppress audio inside nextTick() when UI-updating
-    private _scheduled: ScheduledEvent[] = [];
-
-    // Cached sorted tempo changes for quick lookup
-    private _tempoChangeList: TempoChange[] = [];
-    private _tickNotes: Map<
-        number,
-        Array<{ note: Note; instrument: Instrument; channelId: string }>
-    > = new Map();
-    private _tempoChanges: Map<number, TempoChange> = new Map();
-    // Map for resolving current channel objects by id (keeps up-to-date when channels replaced)
-    private _channelsById: Map<string, NoteChannel> = new Map();
-
     private _song = $state<Song | null>(null);
     private _persistTimer: ReturnType<typeof setTimeout> | null = null;
+    // Resource pack overriding the built-in samples, remembered per browser
+    private _resourcePack = $state.raw<ResourcePack | null>(loadResourcePack());
+
+    private readonly _audio: WebAudioEngine = new WebAudioEngine(
+        () => this._song,
+        this._resourcePack
+    );
+    private readonly _model: SongModel = new SongModel(() => this._transport);
+    private readonly _transport: Transport = new Transport(this._model, this._audio);
+    // Editor preferences such as the metronome settings, remembered per browser
+    private _preferences = $state.raw<EditorPreferences>(loadEditorPreferences());
+
+    // Channel updates being previewed (e.g. during a fader drag) and their original values
+    private _channelPreview: { index: number; previous: Partial<NoteChannel> } | null = null;
+    // Mixing updates being previewed
+    private _mixingPreview: Partial<SongMixing> | null = null;
+
+    constructor() {
+        this._transport.setMetronomeSettings(this._preferences.metronome);
+        this._audio.setMetronomeSettings(this._preferences.metronome);
+    }
 
     get song(): Song | null {
         return this._song;
     }
 
     get isPlaying() {
-        return this._isPlaying;
+        return this._transport.isPlaying;
     }
 
     get currentTick() {
-        return this._currentTick;
+        return this._transport.currentTick;
     }
 
     get tempo() {
-        return this._tempo;
+        return this._transport.tempo;
     }
 
     get ticksPerBeat() {
-        return this._ticksPerBeat;
+        return this._transport.ticksPerBeat;
     }
 
     get beatsPerBar() {
-        return this._beatsPerBar;
+        return this._transport.beatsPerBar;
     }
 
     get metronomeEnabled() {
-        return this._metronomeEnabled;
+        return this._transport.metronomeEnabled;
+    }
+
+    /** Subdivision, accents, sound and volume of the metronome. */
+    get metronomeSettings() {
+        return this._preferences.metronome;
+    }
+
+    /** Whether dragging the playhead plays the notes it crosses. */
+    get scrubbingEnabled() {
+        return this._preferences.scrubbing;
+    }
+
+    /** Transport speed as a multiplier of the song tempo; the tempo channel is not changed. */
+    get playbackRate() {
+        return this._transport.playbackRate;
+    }
+
+    /** Whether samples keep their pitch when the playback rate is not 1. */
+    get preservePitch() {
+        return this._transport.preservePitch;
+    }
+
+    /** Count-in and pre-roll settings of the current song. */
+    get transport(): SongTransport {
+        return this._song?.transport ?? DEFAULT_SONG_TRANSPORT;
+    }
+
+    /** Whether playback is waiting for its count-in to finish. */
+    get isCountingIn() {
+        return this._transport.isCountingIn;
+    }
+
+    /** Whether playback emulates the timing and note range of the exported datapack. */
+    get minecraftTiming() {
+        return this._transport.minecraftTiming;
+    }
+
+    /** Web Audio engine playing the song; previews go through it too. */
+    get audio() {
+        return this._audio;
     }
 
     // Reverb system getters for external access
     get audioCtx() {
-        return this._audioCtx;
+        return this._audio.audioCtx;
+    }
+
+    get outputChain() {
+        return this._audio.outputChain;
     }
 
     get reverbNode() {
-        return this._reverbNode;
+        return this.outputChain?.reverbNode ?? null;
     }
 
     get reverbGain() {
-        return this._reverbGain;
+        return this.outputChain?.reverbGain ?? null;
     }
 
     get dryGain() {
-        return this._dryGain;
+        return this.outputChain?.dryGain ?? null;
     }
 
-    get buffers() {
-        return this._buffers;
+    /**
+     * Decoded sample for an instrument, or null while it is not loaded yet. Custom
+     * instrument buffers are only returned while they match the song's current sample.
+     */
+    getSample(instrument: Instrument): InstrumentSample | null {
+        return this._audio.getSample(instrument);
+    }
+
+    /** Master bus and reverb settings of the current song. */
+    get mixing(): SongMixing {
+        return this._song?.mixing ?? DEFAULT_SONG_MIXING;
     }
 
     get masterGain() {
-        return this._masterGain;
+        return this.outputChain?.masterGain ?? null;
     }
 
     // --- Bar/Beat helpers (considering tempo/time-signature changes) ---
@@ -401,67 +250,94 @@ export class Player {
      * Current bar index (0-based), derived from current tick and tempo changes.
      */
     get currentBar(): number {
-        return this.computeBarBeatAtTick(this._currentTick).bar;
+        return this._transport.currentBar;
     }
 
     /**
      * Current beat index within the bar (0-based), derived from current tick.
      */
     get currentBeat(): number {
-        return this.computeBarBeatAtTick(this._currentTick).beat;
+        return this._transport.currentBeat;
     }
 
     /**
      * Get the bar number (0-based) at a specific tick.
      */
     getBarAtTick(tick: number): number {
-        return this.computeBarBeatAtTick(tick).bar;
+        return this._model.getBarAtTick(tick);
     }
 
     /**
      * Snap a tick to the start of the nearest bar.
      */
     snapTickToNearestBarStart(tick: number): number {
-        const { bar } = this.computeBarBeatAtTick(tick);
-        const currentBarStart = this.findTickForBarBeat(bar, 0).tick;
-        const nextBarStart = this.findTickForBarBeat(bar + 1, 0).tick;
-
-        // Calculate distance to current bar start and next bar start
-        const distanceToCurrent = Math.abs(tick - currentBarStart);
-        const distanceToNext = Math.abs(tick - nextBarStart);
-
-        // Return the closer bar start
-        return distanceToCurrent <= distanceToNext ? currentBarStart : nextBarStart;
+        return this._model.snapTickToNearestBarStart(tick);
     }
 
     /**
      * Get the absolute tick for the start of a specific bar (0-based).
      */
     getBarStartTick(bar: number): number {
-        return this.findTickForBarBeat(Math.max(0, Math.floor(bar)), 0).tick;
+        return this._model.getBarStartTick(bar);
     }
 
     /** Current loop mode. */
     get loopMode() {
-        return this._loopMode;
+        return this._transport.loopMode;
     }
 
     /** Selection start tick (inclusive) or null. */
     get selectionStart() {
-        return this._selectionStart;
+        return this._transport.selectionStart;
     }
 
     /** Selection end tick (exclusive) or null. */
     get selectionEnd() {
-        return this._selectionEnd;
+        return this._transport.selectionEnd;
+    }
+
+    /** Loop region start tick (inclusive) or null. Independent of the selection. */
+    get loopStart() {
+        return this._transport.loopStart;
+    }
+
+    /** Loop region end tick (exclusive) or null. */
+    get loopEnd() {
+        return this._transport.loopEnd;
+    }
+
+    /** How many times the loop region plays before playback moves on; null loops forever. */
+    get loopRepeats() {
+        return this._transport.loopRepeats;
     }
 
     /**
-     * Change loop mode.
+     * Change loop mode. Switching to region looping without a region creates one from the
+     * selection, or four bars from the current bar.
      */
     setLoopMode(mode: LoopMode) {
-        this._loopMode = mode;
-        this.resyncSchedulerOnStateChange();
+        this._transport.setLoopMode(mode);
+    }
+
+    /**
+     * Place the loop region. Both locators snap to the nearest bar start, and the region
+     * is always at least one bar long.
+     */
+    setLoopRegion(start: number, end: number) {
+        this._transport.setLoopRegion(start, end);
+    }
+
+    /** Remove the loop region, turning region looping off. */
+    clearLoopRegion() {
+        this._transport.clearLoopRegion();
+    }
+
+    /**
+     * Set how many times the loop region plays before playback continues past its end.
+     * Pass null to loop forever.
+     */
+    setLoopRepeats(count: number | null) {
+        this._transport.setLoopRepeats(count);
     }
 
     /**
@@ -469,23 +345,74 @@ export class Player {
      * Useful after in-place edits to the song data.
      */
     refreshIndexes() {
-        const { tickNotes, tempoChanges, channelsById } = Player.buildIndexes(this._song as any);
-        this._tickNotes = tickNotes;
-        this._tempoChanges = tempoChanges;
-        this._tempoChangeList = Array.from(tempoChanges.values()).sort((a, b) => a.tick - b.tick);
-        this._channelsById = channelsById;
-        // Keep selection bounds within new song length if applicable
-        if (this._selectionStart !== null)
-            this._selectionStart = this.clampTick(this._selectionStart);
-        if (this._selectionEnd !== null) this._selectionEnd = this.clampTick(this._selectionEnd);
-        this.resyncSchedulerOnStateChange();
+        this._model.reindex();
+        this.syncChannelStrips();
+        this.applyMixing();
+        this._transport.songEdited();
         this.schedulePersist();
     }
 
     /** Enable or disable the metronome clicks during playback. */
     setMetronomeEnabled(on: boolean) {
-        this._metronomeEnabled = !!on;
-        this.resyncSchedulerOnStateChange();
+        this._transport.setMetronomeEnabled(on);
+    }
+
+    /**
+     * Change how the metronome clicks. The settings are editor preferences, remembered in
+     * this browser for every song.
+     */
+    updateMetronomeSettings(updates: Partial<MetronomeSettings>) {
+        const metronome = { ...this._preferences.metronome, ...updates };
+        metronome.volume = Math.max(0, Math.min(100, Math.round(metronome.volume)));
+        this._preferences = { ...this._preferences, metronome };
+        saveEditorPreferences(this._preferences);
+
+        this._transport.setMetronomeSettings(metronome);
+        this._audio.setMetronomeSettings(metronome);
+    }
+
+    /** Turn audio scrubbing on or off. Remembered in this browser like other preferences. */
+    setScrubbingEnabled(on: boolean) {
+        this._preferences = { ...this._preferences, scrubbing: !!on };
+        saveEditorPreferences(this._preferences);
+    }
+
+    /**
+     * Change the song's count-in and pre-roll. Bar counts are clamped to 0..4. These are
+     * playback preferences, so they are saved with the song but not recorded in history.
+     */
+    updateTransport(updates: Partial<SongTransport>) {
+        if (!this.song) return;
+        const next = { ...this.transport, ...updates };
+        next.countInBars = Math.max(0, Math.min(4, Math.round(next.countInBars)));
+        next.preRollBars = Math.max(0, Math.min(4, Math.round(next.preRollBars)));
+        this.song.transport = next;
+        this.schedulePersist();
+    }
+
+    /**
+     * Set the transport rate, clamped to MIN_PLAYBACK_RATE..MAX_PLAYBACK_RATE. Only playback
+     * speeds up or slows down; the song tempo and offline renders are unaffected.
+     */
+    setPlaybackRate(rate: number) {
+        this._transport.setPlaybackRate(rate);
+    }
+
+    /**
+     * Keep notes at their written pitch when the playback rate changes. When off, samples
+     * are resampled along with the tempo, like a tape running faster or slower.
+     */
+    setPreservePitch(on: boolean) {
+        this._transport.setPreservePitch(on);
+    }
+
+    /**
+     * Enable or disable Minecraft timing. While on, the song plays like the generated
+     * datapack: at its single tempo, with notes snapped to the 20 Hz game tick grid, and
+     * without notes outside the noteblock range.
+     */
+    setMinecraftTiming(on: boolean) {
+        this._transport.setMinecraftTiming(on);
     }
 
     /** Set the playback tempo in ticks per second.
@@ -497,21 +424,21 @@ export class Player {
 
         if (options?.skipHistory) {
             if (this.song) {
-                const change = this.findTempoChangeAtOrBeforeTick(this._currentTick);
+                const change = this._model.findTempoChangeAtOrBeforeTick(this.currentTick);
                 if (change) {
                     change.tempo = tempo;
                 } else {
                     this.song.tempo = tempo;
                 }
-                this._tempo = tempo;
+                this._transport.setTempo(tempo);
                 this.refreshIndexes();
             } else {
-                this._tempo = tempo;
+                this._transport.setTempo(tempo);
             }
             return;
         }
 
-        const oldTempo = this._tempo;
+        const oldTempo = this.tempo;
         const action = createSetTempoAction(tempo, oldTempo);
         historyManager.execute(action);
     }
@@ -520,54 +447,35 @@ export class Player {
      * Set selection start tick (inclusive). Clamps to valid range.
      */
     setSelectionStart(tick: number) {
-        const clamped = this.clampTick(tick);
-        this._selectionStart = clamped;
-        // Ensure start <= end when both set
-        if (this._selectionEnd !== null && this._selectionEnd < clamped) {
-            this._selectionEnd = clamped;
-        }
-        this.resyncSchedulerOnStateChange();
+        this._transport.setSelectionStart(tick);
     }
 
     /**
      * Set selection end tick (exclusive). Clamps to valid range.
      */
     setSelectionEnd(tick: number) {
-        const clamped = this.clampTick(tick);
-        this._selectionEnd = clamped;
-        // Ensure start <= end when both set
-        if (this._selectionStart !== null && this._selectionStart > clamped) {
-            this._selectionStart = clamped;
-        }
-        this.resyncSchedulerOnStateChange();
+        this._transport.setSelectionEnd(tick);
     }
 
     /**
      * Jump to a specific bar (0-based). Sets the tick to the start of that bar.
      */
     setCurrentBar(bar: number) {
-        const { tick } = this.findTickForBarBeat(Math.max(0, bar | 0), 0);
-        this._currentTick = this.clampTick(tick);
-        this.resyncSchedulerOnSeek();
+        this._transport.setCurrentBar(bar);
     }
 
     /**
      * Set the current beat (0-based) within the current bar.
      */
     setCurrentBeat(beat: number) {
-        const bar = this.currentBar;
-        const { tick } = this.findTickForBarBeat(bar, Math.max(0, beat | 0));
-        this._currentTick = this.clampTick(tick);
-        this.resyncSchedulerOnSeek();
+        this._transport.setCurrentBeat(beat);
     }
 
     /**
      * Jump directly to a given bar and beat (both 0-based).
      */
     setBarBeat(bar: number, beat: number) {
-        const { tick } = this.findTickForBarBeat(Math.max(0, bar | 0), Math.max(0, beat | 0));
-        this._currentTick = this.clampTick(tick);
-        this.resyncSchedulerOnSeek();
+        this._transport.setBarBeat(bar, beat);
     }
 
     /**
@@ -575,98 +483,27 @@ export class Player {
      * Keeps a lower bound of 0 for sanity, but allows "free" cursor beyond the song.
      */
     setCurrentTick(tick: number) {
-        this._currentTick = Math.max(0, tick | 0);
-        this.resyncSchedulerOnSeek();
+        this._transport.setCurrentTick(tick);
     }
 
     /**
-     * Clear any active selection.
+     * Move the playhead from a pointer gesture. With scrubbing on, the notes it crosses
+     * are played while stopped; otherwise this is `setCurrentTick`.
      */
-    clearSelection() {
-        this._selectionStart = null;
-        this._selectionEnd = null;
-        this.resyncSchedulerOnStateChange();
-    }
-
-    /** Clamp an arbitrary tick to [0, song.length] if a song is loaded, or [0, +Inf) otherwise. */
-    private clampTick(tick: number): number {
-        const base = Math.max(0, tick | 0);
-        if (!this.song) return base;
-        return Math.min(base, this.song.length);
+    scrubTo(tick: number) {
+        if (this._preferences.scrubbing) this._transport.scrubTo(tick);
+        else this._transport.setCurrentTick(tick);
     }
 
-    private hasValidSelection(): boolean {
-        return (
-            this._selectionStart !== null &&
-            this._selectionEnd !== null &&
-            this._selectionEnd > this._selectionStart
-        );
+    /**
+     * Clear any active selection.
+     */
+    clearSelection() {
+        this._transport.clearSelection();
     }
 
     nextTick() {
-        if (!this.song) return;
-
-        // Handle loop boundaries before emitting notes
-        if (this._loopMode === LoopMode.Selection && this.hasValidSelection()) {
-            const start = this._selectionStart as number;
-            const end = Math.min(this._selectionEnd as number, this.song.length);
-            // If we've just left the selection on the right bound, wrap to start
-            if (this._currentTick >= end) {
-                this._currentTick = start;
-            } else if (this._currentTick < start) {
-                // Before selection: do not force-jump; stop at song end if reached
-                if (this.atSongEnd(this._currentTick, this.song)) return this.stopInternal();
-            }
-        } else if (this._loopMode === LoopMode.Song) {
-            if (this.atSongEnd(this._currentTick, this.song)) {
-                this._currentTick = 0;
-            }
-        } else {
-            if (this.atSongEnd(this._currentTick, this.song)) return this.stopInternal();
-        }
-        if (!this._muteTickAudio) {
-            const notes = Player.getNotesAtTick(this._tickNotes, this._currentTick);
-            if (notes) {
-                for (const { note, instrument, channelId } of notes) {
-                    // resolve channel object from current channels map
-                    const channel =
-                        this._channelsById.get(channelId) ??
-                        this.song?.channels.find((c) => (c as any).id === channelId);
-                    if (!channel || channel.kind !== 'note') continue;
-                    if ((channel as NoteChannel).isMuted) continue;
-                    try {
-                        playNote(note, instrument);
-                    } catch {}
-                    const id = `${this._currentTick}:${note.key}:${instrument}`;
-                    emitNotePlayed(id, 120);
-                }
-            }
-        }
-        // Update tempo from the latest active tempo change (not just changes at this exact tick)
-        const latestTempo = this.getTempoAtTick(this._currentTick);
-        if (latestTempo !== this._tempo) {
-            this._tempo = latestTempo;
-        }
-
-        // Also check for time signature changes at this exact tick
-        const change = Player.getTempoChangeAtTick(this._tempoChanges, this._currentTick);
-        if (change) {
-            this._ticksPerBeat = change.ticksPerBeat;
-            this._beatsPerBar = change.beatsPerBar;
-        }
-        // Metronome: click on each beat boundary (accent first beat of bar)
-        if (this._metronomeEnabled && !this._muteTickAudio) {
-            const seg = this.getSegmentAtTick(this._currentTick);
-            if (seg) {
-                const ticksInto = this._currentTick - seg.start;
-                if (ticksInto >= 0 && seg.tpb > 0 && ticksInto % seg.tpb === 0) {
-                    const beatsInto = Math.floor(ticksInto / seg.tpb);
-                    const beatInBar = beatsInto % seg.bpb;
-                    this.playMetronome(beatInBar === 0);
-                }
-            }
-        }
-        this._currentTick++;
+        this._transport.nextTick();
     }
 
     /**
@@ -675,23 +512,7 @@ export class Player {
      *
      */
     async resume() {
-        if (!this.song) throw new Error('No song loaded');
-
-        this._isPlaying = true;
-
-        // Do not force cursor into selection on resume; only ensure song loop wraps
-        if (this._loopMode === LoopMode.Song) {
-            if (this.atSongEnd(this._currentTick, this.song)) this._currentTick = 0;
-        }
-
-        // Start UI updater (tick counter only, no audio emission)
-        this._muteTickAudio = true;
-        if (!this.interval) this._nextTickAt = performance.now();
-        this.scheduleUi();
-
-        // Prepare audio context and schedule engine
-        await this.ensureAudioReady();
-        this.startAudioScheduler();
+        await this._transport.resume();
     }
 
     /**
@@ -699,21 +520,41 @@ export class Player {
      * Throws if the player is not running.
      */
     async pause() {
-        this._isPlaying = false;
+        await this._transport.pause();
+    }
 
-        // Stop UI updater
-        if (this.interval) {
-            clearTimeout(this.interval);
-            this.interval = null;
+    /**
+     * Render the song (or the loop selection) faster than real time through an
+     * OfflineAudioContext. Uses the same instrument buffers, mute/solo state and reverb
+     * impulse as live playback, timed by the song's tempo map. The metronome is not rendered.
+     * Throws if the sample of an instrument in the render cannot be loaded.
+     */
+    async renderOffline(options: OfflineRenderOptions = {}): Promise<AudioBuffer> {
+        const song = this.song;
+        if (!song) throw new Error('No song loaded');
+
+        await this._audio.prepare();
+        const ctx = this._audio.audioCtx;
+        if (!ctx) throw new Error('Web Audio is not available');
+
+        const channelIds = options.channelIds ? new Set(options.channelIds) : null;
+        const instruments = song.channels
+            .filter((channel): channel is NoteChannel => channel.kind === 'note')
+            .filter((channel) => (channelIds ? channelIds.has(channel.id ?? '') : !channel.isMuted))
+            .map((channel) => channel.instrument);
+        const missing = await this._audio.loadSamples(instruments);
+        if (missing.length) {
+            const names = missing.map((instrument) => getInstrumentName(instrument, song));
+            throw new Error(`Could not load the samples of ${names.join(', ')}.`);
         }
 
-        // Stop audio scheduler (already scheduled notes may still play)
-        if (this._schedulerTimer) {
-            clearInterval(this._schedulerTimer);
-            this._schedulerTimer = null;
-        }
-        // Cancel any scheduled audio from now on
-        this.cancelScheduledFromNow();
+        const source = {
+            getSample: (instrument: Instrument) => this._audio.getSample(instrument),
+            impulse: this.reverbNode?.buffer ?? null,
+            mixing: this.mixing,
+            sampleRate: ctx.sampleRate
+        };
+        return await renderOffline(this._transport, song.length, source, options);
     }
 
     /**
@@ -721,38 +562,19 @@ export class Player {
      * @param song The song to load into the player.
      */
     setSong(song: Song) {
-        // Ensure tempo changes are at bar boundaries
+        // Tempo changes keep the ticks they were loaded with, since imported MIDI tempo maps
+        // and NBS tempo changers may sit mid-bar
         for (const channel of song.channels) {
-            if (channel.kind === 'tempo') {
-                for (const tempoChange of channel.tempoChanges) {
-                    tempoChange.tick = this.snapTickToNearestBarStart(tempoChange.tick);
-                }
+            if (channel.kind === 'note' && typeof channel.volume !== 'number') {
+                // Songs saved before channel volume existed
+                channel.volume = 100;
             }
         }
 
         this._song = song;
-        this._currentTick = 0;
-        this._tempo = song.tempo ?? this._tempo;
-        const { tickNotes, tempoChanges, channelsById } = Player.buildIndexes(song);
-        this._tickNotes = tickNotes;
-        this._tempoChanges = tempoChanges;
-        this._tempoChangeList = Array.from(tempoChanges.values()).sort((a, b) => a.tick - b.tick);
-        this._channelsById = channelsById;
-
-        // Normalize selection to the bounds of the new song
-        if (this._selectionStart !== null)
-            this._selectionStart = this.clampTick(this._selectionStart);
-        if (this._selectionEnd !== null) this._selectionEnd = this.clampTick(this._selectionEnd);
-        if (
-            this._selectionStart !== null &&
-            this._selectionEnd !== null &&
-            this._selectionEnd < this._selectionStart
-        ) {
-            // Keep consistent invariant start <= end
-            this._selectionEnd = this._selectionStart;
-        }
-        // If playing, ensure scheduler respects the new state
-        this.resyncSchedulerOnStateChange();
+        this._model.setSong(this._song);
+        this.syncChannelStrips();
+        this._transport.songLoaded();
         this.schedulePersist();
     }
 
@@ -910,12 +732,13 @@ export class Player {
                 const nextState: Partial<Note> = {};
                 const previousState: Partial<Note> = {};
                 let mutated = false;
-                for (const key of ['tick', 'key', 'velocity', 'pitch'] as (keyof Note)[]) {
+                for (const key of ['tick', 'key', 'velocity', 'pitch', 'pan'] as (keyof Note)[]) {
                     const nextValue = change.nextState[key];
                     if (typeof nextValue !== 'number') continue;
                     const prevRaw = change.previousState[key];
+                    // A note without pan is centered; undoing to undefined removes the pan again
                     const prevValue = typeof prevRaw === 'number' ? prevRaw : change.note[key];
-                    if (nextValue === prevValue) continue;
+                    if (nextValue === (key === 'pan' ? (prevValue ?? 0) : prevValue)) continue;
                     nextState[key] = nextValue;
                     previousState[key] = prevValue;
                     mutated = true;
@@ -961,29 +784,190 @@ export class Player {
 
         if (options?.skipHistory) {
             let mutated = false;
+            let needsReindex = false;
             for (const key of Object.keys(updates) as (keyof NoteChannel)[]) {
                 if (!Object.prototype.hasOwnProperty.call(updates, key)) continue;
                 const value = updates[key];
                 if ((channel as any)[key] === value) continue;
                 (channel as any)[key] = value as NoteChannel[keyof NoteChannel];
                 mutated = true;
+                if (!UNINDEXED_CHANNEL_KEYS.has(key)) needsReindex = true;
+            }
+            if (!mutated) return;
+            if (needsReindex) {
+                this.refreshIndexes();
+            } else {
+                // Level, pan and effects are applied to the live strips without rescheduling audio
+                this.syncChannelStrips();
+                this.schedulePersist();
             }
-            if (mutated) this.refreshIndexes();
             return;
         }
 
         // Capture previous state for undo
+        // Optional fields such as `effects` may be missing; undo then restores them as unset.
         const previousState: Partial<NoteChannel> = {};
         for (const key of Object.keys(updates) as (keyof NoteChannel)[]) {
-            if (key in channel) {
-                (previousState as any)[key] = (channel as any)[key];
-            }
+            (previousState as any)[key] = (channel as any)[key];
         }
 
         const action = createUpdateNoteChannelAction(index, updates, previousState);
         historyManager.execute(action);
     }
 
+    /**
+     * Apply channel updates immediately without recording history, e.g. while a fader is
+     * dragged. The values from before the first preview are remembered so
+     * `commitNoteChannelPreview` can record the whole gesture as one undoable change.
+     */
+    previewNoteChannel(index: number, updates: Partial<NoteChannel>) {
+        const channel = this.song?.channels[index];
+        if (!channel || channel.kind !== 'note') return;
+
+        if (!this._channelPreview || this._channelPreview.index !== index) {
+            this.commitNoteChannelPreview();
+            this._channelPreview = { index, previous: {} };
+        }
+        const previous = this._channelPreview.previous;
+        for (const key of Object.keys(updates) as (keyof NoteChannel)[]) {
+            if (!(key in previous)) (previous as any)[key] = (channel as any)[key];
+        }
+        this.updateNoteChannel(index, updates, { skipHistory: true });
+    }
+
+    /**
+     * Record the changes made through `previewNoteChannel` as a single history entry.
+     */
+    commitNoteChannelPreview() {
+        const preview = this._channelPreview;
+        this._channelPreview = null;
+        const channel = preview ? this.song?.channels[preview.index] : null;
+        if (!preview || !channel || channel.kind !== 'note') return;
+
+        const updates: Partial<NoteChannel> = {};
+        let changed = false;
+        for (const key of Object.keys(preview.previous) as (keyof NoteChannel)[]) {
+            (updates as any)[key] = (channel as any)[key];
+            if ((preview.previous as any)[key] !== (channel as any)[key]) changed = true;
+        }
+        if (!changed) return;
+
+        // The channel already holds the new values; record the change against the old ones.
+        const action = createUpdateNoteChannelAction(preview.index, updates, preview.previous);
+        historyManager.execute(action);
+    }
+
+    /**
+     * Update the song's master bus and reverb settings. Changes are applied to the live
+     * audio graph right away, so playback keeps running.
+     */
+    updateMixing(updates: Partial<SongMixing>, options?: HistoryCallOptions) {
+        if (!this.song) return;
+        const current = this.mixing;
+
+        if (options?.skipHistory) {
+            const next = { ...current, ...updates };
+            const keys = Object.keys(next) as (keyof SongMixing)[];
+            if (this.song.mixing && keys.every((key) => next[key] === current[key])) return;
+            this.song.mixing = next;
+            this.applyMixing();
+            this.schedulePersist();
+            return;
+        }
+
+        const previousState: Partial<SongMixing> = {};
+        for (const key of Object.keys(updates) as (keyof SongMixing)[]) {
+            (previousState as any)[key] = current[key];
+        }
+        historyManager.execute(createUpdateMixingAction(updates, previousState));
+    }
+
+    /**
+     * Apply mixing updates without recording history, e.g. while a master fader is dragged.
+     * `commitMixingPreview` records the whole gesture as one undoable change.
+     */
+    previewMixing(updates: Partial<SongMixing>) {
+        if (!this.song) return;
+        const previous = (this._mixingPreview ??= {});
+        const current = this.mixing;
+        for (const key of Object.keys(updates) as (keyof SongMixing)[]) {
+            if (!(key in previous)) (previous as any)[key] = current[key];
+        }
+        this.updateMixing(updates, { skipHistory: true });
+    }
+
+    /**
+     * Record the changes made through `previewMixing` as a single history entry.
+     */
+    commitMixingPreview() {
+        const previous = this._mixingPreview;
+        this._mixingPreview = null;
+        if (!previous || !this.song) return;
+
+        const current = this.mixing;
+        const updates: Partial<SongMixing> = {};
+        let changed = false;
+        for (const key of Object.keys(previous) as (keyof SongMixing)[]) {
+            (updates as any)[key] = current[key];
+            if (previous[key] !== current[key]) changed = true;
+        }
+        if (!changed) return;
+
+        historyManager.execute(createUpdateMixingAction(updates, previous));
+    }
+
+    get resourcePack() {
+        return this._resourcePack;
+    }
+
+    /**
+     * Swap the built-in instrument samples for a resource pack's note block sounds, or back
+     * to the bundled ones with `null`. The choice is remembered in this browser.
+     * The HTML Audio fallback keeps using the bundled files.
+     */
+    async setResourcePack(pack: ResourcePack | null) {
+        this._resourcePack = pack;
+        if (pack) saveResourcePack(pack);
+        else clearResourcePack();
+
+        await this._audio.setResourcePack(pack);
+    }
+
+    /**
+     * Replace the song's custom instruments. Samples are decoded in the background; a
+     * replaced sample is picked up the next time a note of that instrument plays. Samples
+     * the new list drops are deleted from the sample store, and undo stores them again.
+     */
+    setCustomInstruments(customInstruments: CustomInstrument[], options?: HistoryCallOptions) {
+        if (!this.song) return;
+
+        if (options?.skipHistory) {
+            const samples = new Set(customInstruments.map((custom) => custom.sample));
+            for (const custom of this.song.customInstruments ?? []) {
+                if (custom.sample && !samples.has(custom.sample)) {
+                    void deleteCustomSample(custom.sample);
+                }
+            }
+            for (const sample of samples) if (sample) restoreCustomSample(sample);
+
+            this.song.customInstruments = customInstruments.length ? customInstruments : undefined;
+            this._audio.setCustomInstruments(customInstruments);
+            this.schedulePersist();
+            return;
+        }
+
+        const previous = this.song.customInstruments ?? [];
+        historyManager.execute(createSetCustomInstrumentsAction(customInstruments, previous));
+    }
+
+    /**
+     * Peak level (0..1) of a channel's output over the last analyser window.
+     * Returns 0 when the channel has not produced audio yet.
+     */
+    getChannelPeak(channelId: string): number {
+        return this._audio.getChannelPeak(channelId);
+    }
+
     /**
      * Update a note section with partial data.
      * Updates the section in place and refreshes indexes to keep player in sync.
@@ -1122,6 +1106,7 @@ export class Player {
                     instrument: channelData.instrument,
                     sections: [],
                     pan: 0,
+                    volume: 100,
                     isMuted: false,
                     id: generateChannelId()
                 } satisfies NoteChannel;
@@ -1335,571 +1320,20 @@ export class Player {
         return true;
     }
 
-    private scheduleUi() {
-        if (!this._isPlaying) return;
-        const delay = Math.max(0, this._nextTickAt - performance.now());
-        this.interval = setTimeout(() => {
-            this.nextTick(); // UI-only advance (audio suppressed)
-            if (!this._isPlaying) return;
-            this._nextTickAt += 1000 / this._tempo;
-            this.scheduleUi();
-        }, delay);
-    }
-
     /**
-     * Return the time-signature segment active at a tick.
-     */
-    private getSegmentAtTick(
-        tick: number
-    ): { start: number; end: number; tpb: number; bpb: number } | null {
-        const segments = this.getSegments();
-        for (const seg of segments) {
-            if (tick >= seg.start && tick < seg.end) return seg;
-        }
-        return segments.length ? segments[segments.length - 1] : null;
-    }
-
-    /**
-     * Play a metronome click. Accent alters playback rate/volume slightly.
-     */
-    private playMetronome(accent: boolean) {
-        if (!browser) return;
-        // If using Web Audio, schedule into the audio graph for tighter timing
-        if (this._audioCtx && this._metronomeBuffer) {
-            const ctx = this._audioCtx;
-            const src = ctx.createBufferSource();
-            src.buffer = this._metronomeBuffer;
-            const gain = ctx.createGain();
-            gain.gain.value = accent ? 0.8 : 0.5;
-            src.connect(gain).connect(this._masterGain ?? ctx.destination);
-            // Start immediately; for lookahead scheduling we call scheduleMetronome()
-            src.start();
-            return;
-        }
-        const base = accent ? metronomeSounds.high : metronomeSounds.low;
-        try {
-            base.currentTime = 0;
-        } catch {}
-        base.volume = accent ? 0.65 : 0.4;
-        void base.play();
-    }
-
-    private atSongEnd(currentTick: number, song: Song | null): boolean {
-        if (!song) return false;
-        // Add 2 bars worth of trailing beats after the last note to allow notes to finish playing
-        // and provide some musical breathing room
-        const trailingBars = 2;
-        const { tpb, bpb } = this.getSignatureAtTick(song.length) ?? {
-            tpb: this._ticksPerBeat,
-            bpb: this._beatsPerBar
-        };
-        const trailingTicks = trailingBars * bpb * tpb;
-        return currentTick >= song.length + trailingTicks;
-    }
-
-    private static getNotesAtTick(
-        map: Map<number, Array<{ note: Note; instrument: Instrument; channelId: string }>>,
-        tick: number
-    ): Array<{ note: Note; instrument: Instrument; channelId: string }> | undefined {
-        return map.get(tick);
-    }
-
-    private static getTempoChangeAtTick(
-        map: Map<number, TempoChange>,
-        tick: number
-    ): TempoChange | undefined {
-        return map.get(tick);
-    }
-
-    private static buildIndexes(song: Song) {
-        const tickNotes = new Map<
-            number,
-            Array<{ note: Note; instrument: Instrument; channelId: string }>
-        >();
-        const tempoChanges = new Map<number, TempoChange>();
-        const channelsById = new Map<string, NoteChannel>();
-
-        for (const channel of song.channels) {
-            if (channel.kind !== 'note') continue;
-            // ensure channel has a stable id
-            if (!(channel as any).id) (channel as any).id = generateChannelId();
-            const cid = (channel as any).id as string;
-            channelsById.set(cid, channel as NoteChannel);
-
-            for (const section of channel.sections) {
-                const base = section.startingTick;
-                for (const note of section.notes) {
-                    const absTick = base + note.tick;
-                    const arr = tickNotes.get(absTick);
-                    const item = { note, instrument: channel.instrument, channelId: cid };
-                    if (arr) arr.push(item);
-                    else tickNotes.set(absTick, [item]);
-                }
-            }
-        }
-
-        for (const channel of song.channels) {
-            if (channel.kind !== 'tempo') continue;
-            for (const t of channel.tempoChanges) {
-                tempoChanges.set(t.tick, t);
-            }
-        }
-
-        return { tickNotes, tempoChanges, channelsById };
-    }
-
-    // --- Web Audio scheduler helpers ---
-    private async ensureAudioReady() {
-        if (!browser) return;
-        if (!this._audioCtx) {
-            this._audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)({
-                latencyHint: 'interactive'
-            }) as AudioContext;
-            this._masterGain = this._audioCtx.createGain();
-            this._masterGain.gain.value = 1.0;
-            this._masterGain.connect(this._audioCtx.destination);
-
-            // Setup reverb audio chain
-            this._reverbNode = this._audioCtx.createConvolver();
-            this._reverbNode.buffer = this.createReverbImpulse();
-
-            this._reverbGain = this._audioCtx.createGain();
-            this._reverbGain.gain.value = 0.2; // 20% wet signal
-
-            this._dryGain = this._audioCtx.createGain();
-            this._dryGain.gain.value = 0.8; // 80% dry signal
-
-            // Connect reverb chain: reverb -> reverbGain -> masterGain
-            this._reverbNode.connect(this._reverbGain);
-            this._reverbGain.connect(this._masterGain);
-
-            // Connect dry chain: dryGain -> masterGain
-            this._dryGain.connect(this._masterGain);
-        }
-        if (this._audioCtx.state === 'suspended') {
-            try {
-                await this._audioCtx.resume();
-            } catch {}
-        }
-        // Preload buffers for instruments present in the song in the background
-        if (this.song) {
-            const instruments = new Set<Instrument>();
-            for (const ch of this.song.channels) {
-                if (ch.kind === 'note') instruments.add(ch.instrument);
-            }
-            await Promise.all(
-                Array.from(instruments).map((inst) =>
-                    this.loadInstrumentBuffer(inst).catch(() => {})
-                )
-            );
-        }
-        // Preload metronome buffer
-        if (!this._metronomeBuffer) {
-            try {
-                this._metronomeBuffer = await this.fetchDecode('/metronome.wav');
-            } catch {}
-        }
-    }
-
-    private async fetchDecode(url: string): Promise<AudioBuffer> {
-        if (!this._audioCtx) throw new Error('AudioContext not ready');
-        const res = await fetch(url);
-        const arr = await res.arrayBuffer();
-        return await this._audioCtx.decodeAudioData(arr);
-    }
-
-    private createReverbImpulse(duration: number = 1.5, decay: number = 2): AudioBuffer {
-        if (!this._audioCtx) throw new Error('AudioContext not ready');
-
-        const sampleRate = this._audioCtx.sampleRate;
-        const length = sampleRate * duration;
-        const impulse = this._audioCtx.createBuffer(2, length, sampleRate);
-
-        for (let channel = 0; channel < 2; channel++) {
-            const channelData = impulse.getChannelData(channel);
-            for (let i = 0; i < length; i++) {
-                const n = length - i;
-                // Create exponential decay with some noise for natural reverb
-                const envelope = Math.pow(n / length, decay);
-                const noise = (Math.random() * 2 - 1) * envelope;
-                channelData[i] = noise;
-            }
-        }
-
-        return impulse;
-    }
-
-    private connectWithReverb(source: AudioBufferSourceNode, gainValue: number): void {
-        if (!this._audioCtx) return;
-
-        const gain = this._audioCtx.createGain();
-        gain.gain.value = gainValue;
-
-        // Route through reverb chain if available, otherwise direct to master
-        if (this._reverbNode && this._reverbGain && this._dryGain) {
-            source.connect(gain);
-            // Split signal: dry path and wet path
-            gain.connect(this._dryGain); // Dry signal
-            gain.connect(this._reverbNode); // Wet signal through reverb
-        } else {
-            source.connect(gain).connect(this._masterGain ?? this._audioCtx.destination);
-        }
-    }
-
-    private async loadInstrumentBuffer(inst: Instrument): Promise<AudioBuffer | null> {
-        if (!browser) return null;
-        const existing = this._buffers.get(inst);
-        if (existing) return existing;
-        const base = soundMap[inst];
-        if (!base) return null;
-        try {
-            const buf = await this.fetchDecode(base.src);
-            this._buffers.set(inst, buf);
-            return buf;
-        } catch {
-            return null;
-        }
-    }
-
-    private findTempoChangeAtOrBeforeTick(tick: number): TempoChange | null {
-        for (let i = this._tempoChangeList.length - 1; i >= 0; i--) {
-            const change = this._tempoChangeList[i];
-            if (change.tick <= tick) return change;
-        }
-        return null;
-    }
-
-    private getTempoAtTick(tick: number): number {
-        // Follow song tempo changes; fall back to current/base tempo
-        let tempo = this._tempo;
-        for (let i = 0; i < this._tempoChangeList.length; i++) {
-            const ch = this._tempoChangeList[i];
-            if (ch.tick <= tick) tempo = ch.tempo;
-            else break;
-        }
-        return tempo;
-    }
-
-    private getSignatureAtTick(tick: number): { tpb: number; bpb: number; segStart: number } {
-        // Use existing segment computation for tpb/bpb and start
-        const seg = this.getSegmentAtTick(tick);
-        if (seg) return { tpb: seg.tpb, bpb: seg.bpb, segStart: seg.start };
-        return { tpb: this._ticksPerBeat, bpb: this._beatsPerBar, segStart: 0 };
-    }
-
-    private startAudioScheduler() {
-        if (!this._audioCtx) return;
-        if (!this._isPlaying) return;
-
-        // Initialize scheduling cursor if starting fresh
-        this._nextTickToSchedule = this._currentTick;
-        this._nextNoteTime = this._audioCtx.currentTime;
-
-        if (this._schedulerTimer) clearInterval(this._schedulerTimer);
-        this._schedulerTimer = setInterval(() => this.schedulerLoop(), this._schedulerIntervalMs);
-        // Run one immediate pass to reduce initial latency
-        this.schedulerLoop();
-    }
-
-    private schedulerLoop() {
-        if (!this._audioCtx || !this._isPlaying || !this.song) return;
-        const ctx = this._audioCtx;
-        const aheadUntil = ctx.currentTime + this._scheduleAheadSec;
-
-        while (this._nextNoteTime < aheadUntil) {
-            // Loop/stop handling
-            if (this.atSongEnd(this._nextTickToSchedule, this.song)) {
-                if (this._loopMode === LoopMode.Song) {
-                    this._nextTickToSchedule = 0;
-                } else if (this._loopMode === LoopMode.Selection && this.hasValidSelection()) {
-                    const start = this._selectionStart as number;
-                    const end = Math.min(this._selectionEnd as number, this.song.length);
-                    if (this._nextTickToSchedule >= end) this._nextTickToSchedule = start;
-                } else {
-                    // Stop playback when reaching the end in non-loop mode
-                    this.stopInternal();
-                    return;
-                }
-            }
-
-            // Selection loop wrap (mid-song)
-            if (this._loopMode === LoopMode.Selection && this.hasValidSelection()) {
-                const start = this._selectionStart as number;
-                const end = Math.min(this._selectionEnd as number, this.song.length);
-                if (this._nextTickToSchedule >= end) this._nextTickToSchedule = start;
-            }
-
-            // Schedule notes for this tick
-            const notes = Player.getNotesAtTick(this._tickNotes, this._nextTickToSchedule) ?? [];
-            for (const { note, instrument, channelId } of notes) {
-                const channel =
-                    this._channelsById.get(channelId) ??
-                    this.song?.channels.find((c) => (c as any).id === channelId);
-                if (!channel || channel.kind !== 'note') continue;
-
-                if ((channel as NoteChannel).isMuted) {
-                    continue;
-                }
-                this.scheduleNote(instrument, note, this._nextNoteTime, this._nextTickToSchedule);
-            }
-
-            // Metronome on beat boundaries
-            if (this._metronomeEnabled) {
-                const { tpb, bpb, segStart } = this.getSignatureAtTick(this._nextTickToSchedule);
-                const ticksInto = this._nextTickToSchedule - segStart;
-                if (tpb > 0 && ticksInto >= 0 && ticksInto % tpb === 0) {
-                    const beatsInto = Math.floor(ticksInto / tpb);
-                    const beatInBar = beatsInto % bpb;
-                    this.scheduleMetronome(
-                        this._nextNoteTime,
-                        beatInBar === 0,
-                        this._nextTickToSchedule
-                    );
-                }
-            }
-
-            // Advance time by current tempo
-            const tempo = this.getTempoAtTick(this._nextTickToSchedule);
-            const secPerTick = tempo > 0 ? 1 / tempo : 0.05; // fallback
-            this._nextNoteTime += secPerTick;
-            this._nextTickToSchedule += 1;
-        }
-    }
-
-    private scheduleNote(instrument: Instrument, note: Note, when: number, tick: number) {
-        if (!this._audioCtx) return;
-        const ctx = this._audioCtx;
-        const buf = this._buffers.get(instrument);
-        if (!buf) {
-            // Fallback to HTMLAudio if buffer not ready yet; honor scheduled timing
-            const id = `${tick}:${note.key}:${instrument}`;
-            void this.loadInstrumentBuffer(instrument);
-            this.scheduleHtmlPlayback(when, tick, () => {
-                emitNotePlayed(id, 120);
-                void playSound(instrument, note.key, note.velocity, note.pitch);
-            });
-            return;
-        }
-        const src = ctx.createBufferSource();
-        src.buffer = buf;
-        // Compute playback rate
-        src.playbackRate.value = calculatePlaybackRate(note.key, note.pitch);
-
-        this.connectWithReverb(src, (note.velocity / 100) * 0.5);
-        startAudioSource(src, when);
-        // Schedule a UI highlight at the same moment the audio is scheduled to play.
-        // Convert audio-time offset to ms and schedule an event.
-        const id = `${tick}:${note.key}:${instrument}`;
-        try {
-            const now = ctx.currentTime;
-            const delayMs = Math.max(0, (when - now) * 1000);
-            setTimeout(() => emitNotePlayed(id, 120), delayMs);
-        } catch {
-            // best-effort: if something goes wrong, emit immediately
-            try {
-                emitNotePlayed(id, 120);
-            } catch {}
-        }
-        this.trackScheduledAudio(src, when, tick);
-    }
-
-    private scheduleMetronome(when: number, accent: boolean, tick: number) {
-        if (!this._audioCtx || !this._metronomeBuffer) return;
-        const ctx = this._audioCtx;
-        const src = ctx.createBufferSource();
-        src.buffer = this._metronomeBuffer;
-        this.connectWithReverb(src, accent ? 0.8 : 0.5);
-        startAudioSource(src, when);
-        this.trackScheduledAudio(src, when, tick);
-    }
-
-    private removeScheduled(entry: ScheduledEvent) {
-        this._scheduled = this._scheduled.filter((e) => e !== entry);
-    }
-
-    private trackScheduledAudio(node: AudioBufferSourceNode, when: number, tick: number) {
-        const entry: ScheduledAudioEvent = { type: 'audio', node, when, tick };
-        this._scheduled.push(entry);
-        node.onended = () => {
-            this.removeScheduled(entry);
-        };
-    }
-
-    private scheduleHtmlPlayback(when: number, tick: number, run: () => void) {
-        const ctx = this._audioCtx;
-        const delayMs = ctx ? Math.max(0, (when - ctx.currentTime) * 1000) : 0;
-        let entry: ScheduledHtmlEvent;
-        const timeout = setTimeout(() => {
-            try {
-                run();
-            } finally {
-                this.removeScheduled(entry);
-            }
-        }, delayMs);
-        entry = { type: 'html', timeout, when, tick } as ScheduledHtmlEvent;
-        this._scheduled.push(entry);
-    }
-
-    private cancelScheduledFromNow() {
-        if (!this._audioCtx) return;
-        const now = this._audioCtx.currentTime - 0.002;
-        for (const e of this._scheduled) {
-            if (e.when >= now) {
-                if (e.type === 'audio') {
-                    try {
-                        e.node.stop(0);
-                    } catch {}
-                } else {
-                    clearTimeout(e.timeout);
-                }
-            }
-        }
-        this._scheduled = [];
-    }
-
-    private resyncSchedulerOnSeek() {
-        this._nextTickAt = performance.now();
-        if (!this._isPlaying) return;
-        if (!this._audioCtx) return;
-        this.cancelScheduledFromNow();
-        this._nextTickToSchedule = this._currentTick;
-        this._nextNoteTime = this._audioCtx.currentTime;
-        this.schedulerLoop();
-    }
-
-    private resyncSchedulerOnStateChange() {
-        if (!this._isPlaying) return;
-        if (!this._audioCtx) return;
-        this.cancelScheduledFromNow();
-        this._nextTickToSchedule = this._currentTick;
-        this._nextNoteTime = this._audioCtx.currentTime;
-        this.schedulerLoop();
-    }
-
-    /**
-     * Compute an ordered list of tempo/time-signature segments covering the song.
-     * Assumes tempo changes occur at bar boundaries (common in editors).
-     */
-    private getSegments(): { start: number; end: number; tpb: number; bpb: number }[] {
-        const length = this.song?.length ?? Number.POSITIVE_INFINITY;
-        const changes = Array.from(this._tempoChanges.values()).sort((a, b) => a.tick - b.tick);
-
-        const segments: { start: number; end: number; tpb: number; bpb: number }[] = [];
-
-        // Determine base signature at 0 if no change at 0
-        const firstChangeAtZero = changes.length > 0 && changes[0].tick === 0;
-        let cursor = 0;
-        let currentTpb = firstChangeAtZero ? changes[0].ticksPerBeat : this._ticksPerBeat;
-        let currentBpb = firstChangeAtZero ? changes[0].beatsPerBar : this._beatsPerBar;
-
-        for (let i = firstChangeAtZero ? 1 : 0; i < changes.length; i++) {
-            const ch = changes[i];
-            if (cursor < ch.tick) {
-                segments.push({ start: cursor, end: ch.tick, tpb: currentTpb, bpb: currentBpb });
-                cursor = ch.tick;
-            }
-            currentTpb = ch.ticksPerBeat;
-            currentBpb = ch.beatsPerBar;
-        }
-
-        if (cursor < length) {
-            segments.push({ start: cursor, end: length, tpb: currentTpb, bpb: currentBpb });
-        }
-
-        // No song loaded and no changes: provide an open-ended default segment
-        if (!this.song && segments.length === 0) {
-            segments.push({
-                start: 0,
-                end: Number.POSITIVE_INFINITY,
-                tpb: this._ticksPerBeat,
-                bpb: this._beatsPerBar
-            });
-        }
-
-        return segments;
-    }
-
-    /**
-     * Convert a tick to bar/beat using the tempo/time-signature segments.
-     * Bar and beat are 0-based.
+     * Ensure the song length provides at least `minBars` after `referenceTick`.
+     * Uses the local time signature at that tick to compute bar size.
      */
-    private computeBarBeatAtTick(tick: number): { bar: number; beat: number } {
-        const segments = this.getSegments();
-        let barAccum = 0;
-        for (const seg of segments) {
-            if (tick >= seg.end) {
-                const segTicks = seg.end - seg.start;
-                const barsInSeg = Math.floor(segTicks / (seg.tpb * seg.bpb));
-                barAccum += barsInSeg;
-                continue;
-            }
-            if (tick >= seg.start && tick < seg.end) {
-                const ticksInto = tick - seg.start;
-                const beatsInto = Math.floor(ticksInto / seg.tpb);
-                const barInSeg = Math.floor(beatsInto / seg.bpb);
-                const beatInBar = beatsInto % seg.bpb;
-                return { bar: barAccum + barInSeg, beat: beatInBar };
-            }
-        }
-        // Past end of song: clamp to last position
-        if (segments.length > 0) {
-            const last = segments[segments.length - 1];
-            const segTicks = Math.max(0, (this.song?.length ?? last.end) - last.start);
-            const barsInSeg = Math.floor(segTicks / (last.tpb * last.bpb));
-            return { bar: barAccum + barsInSeg, beat: 0 };
-        }
-        return { bar: 0, beat: 0 };
+    ensureTrailingBarsAfterTick(referenceTick: number, minBars = 16) {
+        this._model.ensureTrailingBarsAfterTick(referenceTick, minBars);
     }
 
-    /**
-     * Convert bar/beat (0-based) to a tick, clamped to song bounds if loaded.
-     */
-    private findTickForBarBeat(bar: number, beat: number): { tick: number } {
-        const segments = this.getSegments();
-        const targetBar = Math.max(0, bar | 0);
-        let barAccum = 0;
-        for (const seg of segments) {
-            const barsInSeg = Math.floor((seg.end - seg.start) / (seg.tpb * seg.bpb));
-            if (targetBar < barAccum + barsInSeg) {
-                const barWithin = targetBar - barAccum;
-                const clampedBeat = Math.min(Math.max(0, beat | 0), seg.bpb - 1);
-                const tick = seg.start + barWithin * seg.bpb * seg.tpb + clampedBeat * seg.tpb;
-                return { tick };
-            }
-            barAccum += barsInSeg;
-        }
-
-        // If requesting a bar beyond the song, clamp to end
-        const endTick = this.song?.length ?? bar * this._beatsPerBar * this._ticksPerBeat;
-        return { tick: endTick };
+    private syncChannelStrips() {
+        this._audio.syncChannelStrips((channelId) => this._model.getChannel(channelId));
     }
 
-    /**
-     * Ensure the song length provides at least `minBars` after `referenceTick`.
-     * Uses the local time signature at that tick to compute bar size.
-     */
-    ensureTrailingBarsAfterTick(referenceTick: number, minBars = 16) {
-        const song = this.song;
-        if (!song) return;
-        const seg = this.getSegmentAtTick(referenceTick);
-        const tpb = seg?.tpb ?? this._ticksPerBeat;
-        const bpb = seg?.bpb ?? this._beatsPerBar;
-        const ticksPerBar = Math.max(1, tpb * bpb);
-        const required = Math.max(0, referenceTick | 0) + Math.max(0, minBars | 0) * ticksPerBar;
-        if (song.length < required) song.length = required;
-    }
-
-    private stopInternal() {
-        this._isPlaying = false;
-        if (this.interval) {
-            clearTimeout(this.interval);
-            this.interval = null;
-        }
-        if (this._schedulerTimer) {
-            clearInterval(this._schedulerTimer);
-            this._schedulerTimer = null;
-        }
-        this._muteTickAudio = false;
+    private applyMixing() {
+        this._audio.applyMixing();
     }
 
     private schedulePersist() {
@@ -1922,46 +1356,17 @@ export class Player {
      * Stops playback if currently playing and resets position, selection, and other state.
      */
     reset() {
-        // Stop playback if currently playing
-        if (this._isPlaying) {
-            this.pause();
-        }
-
-        // Reset playback state
-        this._currentTick = 0;
-        this._tempo = 20;
-        this._ticksPerBeat = 10;
-        this._beatsPerBar = 4;
-        this._metronomeEnabled = false;
-
-        // Reset loop and selection state
-        this._loopMode = LoopMode.Off;
-        this._selectionStart = null;
-        this._selectionEnd = null;
-
-        // Reset UI timing
-        this._nextTickAt = 0;
-
-        // Reset Web Audio scheduler state
-        this._nextTickToSchedule = 0;
-        this._nextNoteTime = 0;
-        this._muteTickAudio = false;
-
-        // Cancel any scheduled audio
-        this.cancelScheduledFromNow();
+        // Stop playback and reset position, loop and selection state
+        this._transport.reset();
 
-        // Clear cached data
-        this._tickNotes.clear();
-        this._tempoChanges.clear();
-        this._tempoChangeList = [];
-        this._channelsById.clear();
+        this._channelPreview = null;
+        this._mixingPreview = null;
 
-        // Clear song reference
+        // Clear song reference and cached data
         this._song = null;
+        this._model.setSong(null);
 
-        // Reset audio buffers and context (keep them for reuse)
         // Note: We don't dispose of the AudioContext or buffers as they can be reused
-        this._scheduled = [];
     }
 }
 
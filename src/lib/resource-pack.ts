@@ -0,0 +1,141 @@
+import { browser } from '$app/environment';
+import JSZip from 'jszip';
+import { base64ToBytes, bytesToBase64 } from './custom-instruments';
+import { ALL_INSTRUMENTS, Instrument } from './types';
+
+const STORAGE_KEY = 'noteblock-studio:resource-pack';
+
+/**
+ * Note block sounds pulled out of a Minecraft resource pack. Only the instruments the pack
+ * overrides are present; the rest keep the bundled samples.
+ */
+export interface ResourcePack {
+    name: string;
+    sounds: Partial<Record<Instrument, string>>; // Base64 OGG data per instrument
+}
+
+/**
+ * Sound event (after `block.note_block.`) and vanilla file (under `sounds/note/`) of each
+ * instrument. Packs that only drop in files without a sounds.json use the vanilla paths.
+ */
+const NOTE_BLOCK_SOUNDS: Record<Instrument, { event: string; file: string }> = {
+    [Instrument.Piano]: { event: 'harp', file: 'harp' },
+    [Instrument.DoubleBass]: { event: 'bass', file: 'bass' },
+    [Instrument.BassDrum]: { event: 'basedrum', file: 'bd' },
+    [Instrument.SnareDrum]: { event: 'snare', file: 'snare' },
+    [Instrument.Click]: { event: 'hat', file: 'hat' },
+    [Instrument.Guitar]: { event: 'guitar', file: 'guitar' },
+    [Instrument.Flute]: { event: 'flute', file: 'flute' },
+    [Instrument.Bell]: { event: 'bell', file: 'bell' },
+    [Instrument.Chime]: { event: 'chime', file: 'icechime' },
+    [Instrument.Xylophone]: { event: 'xylophone', file: 'xylobone' },
+    [Instrument.IronXylophone]: { event: 'iron_xylophone', file: 'iron_xylophone' },
+    [Instrument.CowBell]: { event: 'cow_bell', file: 'cow_bell' },
+    [Instrument.Didgeridoo]: { event: 'didgeridoo', file: 'didgeridoo' },
+    [Instrument.Bit]: { event: 'bit', file: 'bit' },
+    [Instrument.Banjo]: { event: 'banjo', file: 'banjo' },
+    [Instrument.Pling]: { event: 'pling', file: 'pling' }
+};
+
+type SoundEntry = string | { name: string; type?: 'file' | 'event' };
+
+interface SoundEvent {
+    replace?: boolean;
+    sounds?: SoundEntry[];
+}
+
+/**
+ * Path of the OGG file a sounds.json entry refers to, e.g. `minecraft:note/harp` ->
+ * `assets/minecraft/sounds/note/harp.ogg`. Entries pointing to other events are skipped.
+ */
+function resolveSoundFile(entry: SoundEntry): string | null {
+    const sound = typeof entry === 'string' ? { name: entry } : entry;
+    if (!sound.name || sound.type === 'event') return null;
+    const [namespace, path] = sound.name.includes(':')
+        ? sound.name.split(':', 2)
+        : ['minecraft', sound.name];
+    return `assets/${namespace}/sounds/${path}.ogg`;
+}
+
+/**
+ * Read the note block sounds from a resource pack zip. Throws when the pack does not
+ * override any of them.
+ */
+export async function readResourcePack(file: File): Promise<ResourcePack> {
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+
+    let events: Record<string, SoundEvent> = {};
+    const soundsJson = zip.file('assets/minecraft/sounds.json');
+    if (soundsJson) {
+        try {
+            events = JSON.parse(await soundsJson.async('text'));
+        } catch {
+            throw new Error('The resource pack has an invalid assets/minecraft/sounds.json');
+        }
+    }
+
+    const sounds: Partial<Record<Instrument, string>> = {};
+    for (const instrument of ALL_INSTRUMENTS) {
+        const { event, file: vanillaFile } = NOTE_BLOCK_SOUNDS[instrument];
+        const candidates = (events[`block.note_block.${event}`]?.sounds ?? [])
+            .map(resolveSoundFile)
+            .filter((path): path is string => path !== null);
+        candidates.push(`assets/minecraft/sounds/note/${vanillaFile}.ogg`);
+
+        // The first variant wins; Minecraft picks randomly between several
+        for (const path of candidates) {
+            const entry = zip.file(path);
+            if (!entry) continue;
+            sounds[instrument] = bytesToBase64(await entry.async('uint8array'));
+            break;
+        }
+    }
+
+    if (Object.keys(sounds).length === 0) {
+        throw new Error('The resource pack does not replace any note block sounds');
+    }
+
+    return { name: file.name.replace(/\.zip$/i, ''), sounds };
+}
+
+export function getResourcePackSound(
+    pack: ResourcePack | null,
+    instrument: Instrument
+): Uint8Array<ArrayBuffer> | null {
+    const data = pack?.sounds[instrument];
+    return data ? base64ToBytes(data) : null;
+}
+
+export function saveResourcePack(pack: ResourcePack): void {
+    if (!browser) return;
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(pack));
+    } catch (error) {
+        console.error('Failed to save resource pack to localStorage', error);
+    }
+}
+
+export function loadResourcePack(): ResourcePack | null {
+    if (!browser) return null;
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return null;
+        const parsed = JSON.parse(raw) as Partial<ResourcePack>;
+        if (!parsed || typeof parsed.name !== 'string' || typeof parsed.sounds !== 'object') {
+            return null;
+        }
+        return { name: parsed.name, sounds: parsed.sounds ?? {} };
+    } catch (error) {
+        console.error('Failed to load resource pack from localStorage', error);
+        return null;
+    }
+}
+
+export function clearResourcePack(): void {
+    if (!browser) return;
+    try {
+        localStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+        console.error('Failed to clear resource pack from localStorage', error);
+    }
+}
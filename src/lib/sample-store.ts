@@ -0,0 +1,98 @@
+import { browser } from '$app/environment';
+import { generateChannelId } from './utils';
+
+const DB_NAME = 'noteblock-studio';
+const DB_VERSION = 1;
+const STORE_NAME = 'custom-samples';
+
+/**
+ * Custom instrument samples live in IndexedDB, outside the autosaved song, which only keeps
+ * the key of each sample. Samples are immutable: replacing one stores it under a new key.
+ * Samples added or read this session are also kept in memory.
+ */
+const cache = new Map<string, Uint8Array<ArrayBuffer>>();
+// Samples deleted this session; their bytes stay cached so undo can store them again
+const deleted = new Set<string>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    dbPromise ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    return dbPromise;
+}
+
+async function runRequest<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+    const db = await openDatabase();
+    return await new Promise((resolve, reject) => {
+        const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Keep sample bytes and return the key a custom instrument refers to them by. The bytes are
+ * usable right away; writing them to IndexedDB finishes in the background.
+ */
+export function storeCustomSample(bytes: Uint8Array): string {
+    const key = generateChannelId();
+    const copy = new Uint8Array(bytes);
+    cache.set(key, copy);
+    if (browser) {
+        runRequest('readwrite', (store) => store.put(copy, key)).catch((error) => {
+            console.error('Failed to save custom sample to IndexedDB', error);
+        });
+    }
+    return key;
+}
+
+/** Bytes of a stored sample, or null if there is no sample under the key. */
+export async function loadCustomSample(key: string): Promise<Uint8Array<ArrayBuffer> | null> {
+    const cached = cache.get(key);
+    if (cached) return cached;
+    if (!browser) return null;
+    try {
+        const stored = await runRequest('readonly', (store) => store.get(key));
+        if (!(stored instanceof Uint8Array)) return null;
+        const bytes = new Uint8Array(stored);
+        cache.set(key, bytes);
+        return bytes;
+    } catch (error) {
+        console.error('Failed to load custom sample from IndexedDB', error);
+        return null;
+    }
+}
+
+/**
+ * Delete a sample the user removed from the song. Loading a song never deletes samples, since
+ * other saved songs and tabs may still refer to ones the loaded song does not use.
+ */
+export async function deleteCustomSample(key: string): Promise<void> {
+    deleted.add(key);
+    if (!browser) return;
+    // Keep the bytes in memory before the stored copy goes
+    await loadCustomSample(key);
+    if (!deleted.has(key)) return;
+    try {
+        await runRequest('readwrite', (store) => store.delete(key));
+    } catch (error) {
+        console.error('Failed to delete custom sample from IndexedDB', error);
+    }
+}
+
+/** Store a sample deleted this session again, e.g. when its removal is undone. */
+export function restoreCustomSample(key: string): void {
+    if (!deleted.delete(key)) return;
+    const bytes = cache.get(key);
+    if (!browser || !bytes) return;
+    runRequest('readwrite', (store) => store.put(bytes, key)).catch((error) => {
+        console.error('Failed to save custom sample to IndexedDB', error);
+    });
+}
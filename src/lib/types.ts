@@ -7,10 +7,48 @@ export interface Song {
     author: string;
     description: string;
 
+    // Master bus and reverb settings; missing means DEFAULT_SONG_MIXING
+    mixing?: SongMixing;
+
+    // Count-in and pre-roll used when playback starts; missing means DEFAULT_SONG_TRANSPORT
+    transport?: SongTransport;
+
+    // User samples channels can target with instrument ids from FIRST_CUSTOM_INSTRUMENT
+    customInstruments?: CustomInstrument[];
+
     // File format metadata
     metadata?: SongMetadata;
+
+    // NBS header fields the editor does not use, kept from an import for the NBS export
+    nbs?: NbsSongInfo;
+}
+
+export interface SongMixing {
+    masterVolume: number; // 0 (silent) to 100 (full)
+    reverbSize: number; // Reverb impulse length in seconds, 0.2 to 5
+    reverbDecay: number; // Impulse decay exponent, higher fades faster, 0.5 to 8
+    reverbWet: number; // 0 to 100; the dry level is the remainder
+    limiter: boolean; // Catch peaks on the master bus before the output
 }
 
+export const DEFAULT_SONG_MIXING: SongMixing = {
+    masterVolume: 100,
+    reverbSize: 1.5,
+    reverbDecay: 2,
+    reverbWet: 20,
+    limiter: false
+};
+
+export interface SongTransport {
+    countInBars: number; // Bars of metronome clicks before playback starts, 0 to 4
+    preRollBars: number; // Bars played before the cursor, which playback returns to, 0 to 4
+}
+
+export const DEFAULT_SONG_TRANSPORT: SongTransport = {
+    countInBars: 0,
+    preRollBars: 0
+};
+
 export interface SongMetadata {
     version: string;
     format: string;
@@ -19,6 +57,28 @@ export interface SongMetadata {
     assets: string[];
 }
 
+/**
+ * Open Note Block Studio header fields without an equivalent in the editor.
+ */
+export interface NbsSongInfo {
+    originalAuthor: string;
+    importName: string; // Name of the MIDI or schematic file the NBS song was imported from
+    loop: {
+        enabled: boolean;
+        startTick: number; // Exported .nbs files hold at most NBS_MAX_LOOP_START_TICK
+        totalLoops: number; // 0 loops forever
+    };
+    autoSave: {
+        enabled: boolean;
+        interval: number; // Minutes
+    };
+    minutesSpent: number;
+    leftClicks: number;
+    rightClicks: number;
+    blocksAdded: number;
+    blocksRemoved: number;
+}
+
 export type Channel = NoteChannel | TempoChannel;
 
 export interface BaseChannel {
@@ -44,10 +104,47 @@ export interface NoteChannel extends BaseChannel {
     kind: 'note';
     sections: NoteSection[];
     pan: number; // -100 (left) to 100 (right)
+    volume: number; // 0 (silent) to 100 (full), same scale as NBS layer volume
     instrument: Instrument;
     isMuted: boolean;
+    isLocked?: boolean; // Lock of the NBS layer the channel came from, written back on export
+    effects?: ChannelEffects; // Missing means DEFAULT_CHANNEL_EFFECTS
+}
+
+/**
+ * Insert effects applied to a note channel after its volume and before panning.
+ * The defaults are transparent, so a channel without effects sounds unchanged.
+ */
+export interface ChannelEffects {
+    eq: {
+        lowGain: number; // Low shelf boost/cut in dB, -24 to 24
+        lowFrequency: number; // Low shelf corner in Hz
+        highGain: number; // High shelf boost/cut in dB, -24 to 24
+        highFrequency: number; // High shelf corner in Hz
+    };
+    compressor: {
+        enabled: boolean;
+        threshold: number; // dB, -60 to 0
+        ratio: number; // 1 to 20
+        attack: number; // Seconds
+        release: number; // Seconds
+    };
+    delay: {
+        enabled: boolean;
+        time: number; // Seconds, 0.01 to 2
+        feedback: number; // 0 to 0.9
+        mix: number; // Wet level, 0 to 1
+    };
+    reverbSend: number; // 0 (dry only) to 100 (full send to the song reverb)
 }
 
+export const DEFAULT_CHANNEL_EFFECTS: ChannelEffects = {
+    eq: { lowGain: 0, lowFrequency: 250, highGain: 0, highFrequency: 4000 },
+    compressor: { enabled: false, threshold: -24, ratio: 4, attack: 0.003, release: 0.25 },
+    delay: { enabled: false, time: 0.25, feedback: 0.3, mix: 0.3 },
+    reverbSend: 100
+};
+
 export interface NoteSection {
     startingTick: number; // The starting tick of the section, relative to the start of the song
     length: number; // In ticks
@@ -60,6 +157,15 @@ export interface Note {
     key: number; // From 0-87, where 0 is A0 and 87 is C8. 33-57 is within the 2-octave limit.
     velocity: number;
     pitch: number; // -1200 (lower) to 1200 (higher)
+    pan?: number; // NBS note panning, -100 (left) to 100 (right); missing means centered
+}
+
+export interface CustomInstrument {
+    id: number; // Instrument id used by channels, FIRST_CUSTOM_INSTRUMENT and up
+    name: string;
+    baseKey: number; // Key (0-87) at which the sample plays at its recorded pitch
+    file: string; // Asset file name inside the .nbx `assets/` folder
+    sample?: string; // Key of the bytes in the sample store; missing until a sample is attached
 }
 
 export const NOTEBLOCK_LOWEST_KEY_IN_MIDI = 21;
@@ -85,6 +191,12 @@ export enum Instrument {
     Pling = 15 // Glowstone
 }
 
+// Ids below this are the built-in Minecraft instruments
+export const FIRST_CUSTOM_INSTRUMENT = 16;
+
+// Key at which the built-in samples play unpitched (F#3, the note block's default)
+export const BUILT_IN_SAMPLE_KEY = 33;
+
 // Human-readable names for instruments
 export const INSTRUMENT_NAMES: Record<Instrument, string> = {
     [Instrument.Piano]: 'Piano',
@@ -125,6 +237,9 @@ export const INSTRUMENT_ICONS: Record<Instrument, string> = {
     [Instrument.Pling]: '/instruments/pling.png'
 } as const;
 
+// Icon shown for custom instruments
+export const CUSTOM_INSTRUMENT_ICON = '/noteblock.png';
+
 // Helper to get all available instruments as an array
 export const ALL_INSTRUMENTS = Object.values(Instrument).filter(
     (value) => typeof value === 'number'
@@ -31,3 +31,12 @@ export function generateChannelId(): string {
     } catch {}
     return `ch_${Date.now()}_${++idCounter}`;
 }
+
+/**
+ * Format a pan value (-100..100) as a short label, e.g. `L25`, `C`, `R100`.
+ */
+export function formatPan(pan: number): string {
+    const value = Math.round(pan);
+    if (value === 0) return 'C';
+    return value < 0 ? `L${-value}` : `R${value}`;
+}
@@ -1,6 +1,6 @@
 import tailwindcss from '@tailwindcss/vite';
 import { sveltekit } from '@sveltejs/kit/vite';
-import { defineConfig } from 'vite';
+import { defineConfig } from 'vitest/config';
 import Icons from 'unplugin-icons/vite';
 
 export default defineConfig({
@@ -10,5 +10,9 @@ export default defineConfig({
         Icons({
             compiler: 'svelte'
         })
-    ]
+    ],
+    test: {
+        include: ['src/**/*.{test,spec}.{js,ts}'],
+        environment: 'node'
+    }
 });